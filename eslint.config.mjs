@@ -16,5 +16,16 @@ export default tseslint.config(
 		rules: {
 			'@typescript-eslint/no-explicit-any': 'off'
 		}
+	},
+	{
+		files: ['scripts/**/*.mjs'],
+		languageOptions: {
+			globals: {
+				console: 'readonly',
+				fetch: 'readonly',
+				process: 'readonly',
+				URL: 'readonly'
+			}
+		}
 	}
 );
@@ -0,0 +1,22 @@
+// Refreshes assets/models-catalog.json, the snapshot bundled with the extension as the
+// last-resort model catalog source. Runs on `vscode:prepublish`; by hand: `npm run update-catalog`.
+// Optional arguments: the catalog URL and the output file.
+import { writeFile } from 'node:fs/promises';
+
+const url = process.argv[2] ?? 'https://models.dev/api.json';
+const providerIds = ['opencode', 'opencode-go'];
+
+const response = await fetch(url, { headers: { accept: 'application/json' } });
+if (!response.ok) {
+	throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+}
+
+const json = await response.json();
+const snapshot = Object.fromEntries(providerIds.filter((id) => json[id]).map((id) => [id, json[id]]));
+if (Object.keys(snapshot).length === 0) {
+	throw new Error(`No providers (${providerIds.join(', ')}) found in ${url}`);
+}
+
+const outFile = process.argv[3] ?? new URL('../assets/models-catalog.json', import.meta.url);
+await writeFile(outFile, `${JSON.stringify(snapshot, null, '\t')}\n`);
+console.log(`Wrote bundled catalog snapshot from ${url}`);
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import { AuthenticationError, classifyApiError, NetworkError, QuotaExhaustedError } from './errors';
+import { getNetworkFetch, getZenBaseUrl } from './network';
+import { getOutputChannel } from './output';
+
+export type ApiKeyStatus = 'valid' | 'invalid' | 'unknown';
+
+export type ApiKeyCheckResult = {
+	status: ApiKeyStatus;
+	/** One-line summary, including the provider's error text for rejected keys. */
+	message: string;
+	/** Balance, plan or rate limit information the endpoint exposed, if any. */
+	account: string[];
+};
+
+const CHECK_TIMEOUT_MS = 15_000;
+const ACCOUNT_HEADER_PATTERN = /balance|credit|plan|quota|subscription|ratelimit-(limit|remaining)/i;
+const ACCOUNT_BODY_FIELDS = ['balance', 'credits', 'credit', 'plan', 'subscription', 'tier', 'quota'];
+/** Fails body validation on purpose; see `checkApiKey`. */
+const KEY_CHECK_REQUEST = { model: '', messages: [], max_tokens: 1 };
+
+/**
+ * Checks `apiKey` with a chat request that has no messages. Zen authenticates the key before it
+ * validates the body, so a rejected key is answered with 401 and an accepted one with a
+ * validation error, without spending tokens. The model list can't be used: it needs no key.
+ * Network failures, rate limits and server errors leave the status `unknown`.
+ */
+export async function checkApiKey(apiKey: string, baseURL = getZenBaseUrl()): Promise<ApiKeyCheckResult> {
+	const url = `${baseURL.replace(/\/+$/, '')}/chat/completions`;
+	let response: Response;
+	let body: string;
+	try {
+		response = await getNetworkFetch()(url, {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${apiKey}`, Accept: 'application/json', 'Content-Type': 'application/json' },
+			body: JSON.stringify(KEY_CHECK_REQUEST),
+			signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+		});
+		body = await response.text();
+	} catch (err) {
+		const error = classifyApiError(err, { url });
+		const reason = error instanceof NetworkError ? 'network error' : error.message;
+		return { status: 'unknown', message: `Could not reach OpenCode Zen (${reason}).`, account: [] };
+	}
+
+	const account = extractAccountInfo(response.headers, body);
+	if (response.ok) {
+		return { status: 'valid', message: 'API key is valid.', account };
+	}
+
+	const error = classifyApiError(new Error(`HTTP ${response.status} ${response.statusText}`.trim()), {
+		statusCode: response.status,
+		statusText: response.statusText,
+		responseBody: body,
+		url,
+	});
+	const providerText = error.details.providerMessage ?? `HTTP ${response.status}`;
+	if (error instanceof AuthenticationError) {
+		return { status: 'invalid', message: `API key was rejected: ${providerText}`, account };
+	}
+	if (error instanceof QuotaExhaustedError) {
+		return { status: 'valid', message: `API key is valid, but the account has no balance left: ${providerText}`, account };
+	}
+	if (response.status < 500 && !error.retryable) {
+		// The key got past authentication and the empty request was rejected, as intended.
+		return { status: 'valid', message: 'API key is valid.', account };
+	}
+	return { status: 'unknown', message: `Could not verify the API key: ${providerText}`, account };
+}
+
+/** Runs `checkApiKey` behind a progress notification and logs the outcome. */
+export async function checkApiKeyWithProgress(apiKey: string, profile: string): Promise<ApiKeyCheckResult> {
+	const result = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `OpenCode Zen: Checking API key for profile "${profile}"...` },
+		() => checkApiKey(apiKey)
+	);
+	const output = getOutputChannel();
+	const log = result.status === 'valid' ? output.info.bind(output) : output.warn.bind(output);
+	log(`API key check for profile "${profile}": ${result.message}`);
+	for (const line of result.account) {
+		output.info(`  ${line}`);
+	}
+	return result;
+}
+
+export function formatCheckResult(result: ApiKeyCheckResult): string {
+	return result.account.length > 0 ? `${result.message} ${result.account.join('; ')}.` : result.message;
+}
+
+function extractAccountInfo(headers: Headers, body: string): string[] {
+	const info: string[] = [];
+	for (const [name, value] of headers.entries()) {
+		if (ACCOUNT_HEADER_PATTERN.test(name)) {
+			info.push(`${name}: ${value}`);
+		}
+	}
+
+	let parsed: any;
+	try {
+		parsed = JSON.parse(body);
+	} catch {
+		return info;
+	}
+	if (!parsed || typeof parsed !== 'object') {
+		return info;
+	}
+	for (const field of ACCOUNT_BODY_FIELDS) {
+		const value = parsed[field];
+		if (value !== undefined && value !== null) {
+			info.push(`${field}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+		}
+	}
+	return info;
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { matchesGlob } from './glob';
+import type { UsageEntry, UsageLedger } from './usageLedger';
+import { formatCost, toLocalDay } from './usageReport';
+
+type BudgetCaps = { daily?: number; monthly?: number };
+
+type BudgetConfig = BudgetCaps & {
+	perModel: Record<string, BudgetCaps>;
+	warningThreshold: number;
+};
+
+type CapStatus = {
+	/** Human readable description, e.g. `daily cap for gpt-5*`. */
+	label: string;
+	key: string;
+	spent: number;
+	limit: number;
+};
+
+/**
+ * Tracks spend from the usage ledger against the `opencodeZen.budget.*` caps. Totals are kept in
+ * memory (loaded once from the ledger, then updated as requests are recorded).
+ */
+export class BudgetTracker implements vscode.Disposable {
+	private readonly totals = new Map<string, number>();
+	private loaded: Promise<void> | undefined;
+	private ready = false;
+	/** Entries recorded after the ledger read started, which the read does not include. */
+	private readonly recordedWhileLoading: UsageEntry[] = [];
+	private overridden = false;
+	private readonly warned = new Set<string>();
+	private readonly subscription: vscode.Disposable;
+
+	constructor(private readonly ledger: UsageLedger) {
+		this.subscription = ledger.onDidRecord((entry) => {
+			if (this.ready) {
+				this.add(entry);
+				this.warnIfNeeded(entry.modelId);
+			} else if (this.loaded) {
+				this.recordedWhileLoading.push(entry);
+			}
+			// Entries recorded before the initial load are picked up from the ledger file.
+		});
+	}
+
+	dispose(): void {
+		this.subscription.dispose();
+	}
+
+	get isOverridden(): boolean {
+		return this.overridden;
+	}
+
+	/** Lifts all caps until VS Code restarts. */
+	overrideForSession(): void {
+		this.overridden = true;
+	}
+
+	/**
+	 * Throws a `LanguageModelError` when a cap that applies to `modelId` has been reached.
+	 */
+	async assertWithinBudget(modelId: string): Promise<void> {
+		if (this.overridden) {
+			return;
+		}
+		await this.ensureLoaded();
+
+		const exceeded = this.evaluate(modelId).find((status) => status.spent >= status.limit);
+		if (exceeded) {
+			throw vscode.LanguageModelError.Blocked(
+				`OpenCode Zen ${exceeded.label} of ${formatCost(exceeded.limit)} reached (spent ${formatCost(exceeded.spent)}). ` +
+				'Raise the cap in settings or run "OpenCode Zen: Override Spending Cap" to continue for this session.'
+			);
+		}
+	}
+
+	private ensureLoaded(): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = this.ledger.readEntries().then((entries) => {
+				for (const entry of [...entries, ...this.recordedWhileLoading.splice(0)]) {
+					this.add(entry);
+				}
+				this.ready = true;
+			});
+		}
+		return this.loaded;
+	}
+
+	private add(entry: UsageEntry): void {
+		const day = toLocalDay(entry.timestamp);
+		const month = day.slice(0, 7);
+		for (const key of [`day:${day}`, `month:${month}`, `day:${day}:${entry.modelId}`, `month:${month}:${entry.modelId}`]) {
+			this.totals.set(key, (this.totals.get(key) ?? 0) + entry.cost);
+		}
+	}
+
+	private evaluate(modelId: string): CapStatus[] {
+		const config = getBudgetConfig();
+		const day = toLocalDay(new Date().toISOString());
+		const month = day.slice(0, 7);
+		const statuses: CapStatus[] = [];
+
+		const push = (label: string, key: string, limit: number | undefined, spent: () => number) => {
+			if (limit !== undefined && limit > 0) {
+				statuses.push({ label, key, limit, spent: spent() });
+			}
+		};
+
+		push('daily spending cap', `day:${day}`, config.daily, () => this.totals.get(`day:${day}`) ?? 0);
+		push('monthly spending cap', `month:${month}`, config.monthly, () => this.totals.get(`month:${month}`) ?? 0);
+		for (const [pattern, caps] of Object.entries(config.perModel)) {
+			if (!matchesGlob(modelId, pattern)) {
+				continue;
+			}
+			// A per-model cap is shared by every model its glob matches.
+			push(`daily spending cap for ${pattern}`, `day:${day}:${pattern}`, caps.daily, () => this.spentMatching(`day:${day}`, pattern));
+			push(`monthly spending cap for ${pattern}`, `month:${month}:${pattern}`, caps.monthly, () => this.spentMatching(`month:${month}`, pattern));
+		}
+		return statuses;
+	}
+
+	/** Sums the per-model totals of a period over every model id that matches `pattern`. */
+	private spentMatching(period: string, pattern: string): number {
+		const prefix = `${period}:`;
+		let spent = 0;
+		for (const [key, total] of this.totals) {
+			if (key.startsWith(prefix) && matchesGlob(key.slice(prefix.length), pattern)) {
+				spent += total;
+			}
+		}
+		return spent;
+	}
+
+	private warnIfNeeded(modelId: string): void {
+		if (this.overridden || !this.ready) {
+			return;
+		}
+		const { warningThreshold } = getBudgetConfig();
+		for (const status of this.evaluate(modelId)) {
+			const ratio = status.spent / status.limit;
+			if (ratio < warningThreshold || this.warned.has(status.key + status.label)) {
+				continue;
+			}
+			this.warned.add(status.key + status.label);
+			const percent = Math.round(ratio * 100);
+			void vscode.window.showWarningMessage(
+				`OpenCode Zen: ${percent}% of the ${status.label} used (${formatCost(status.spent)} of ${formatCost(status.limit)}).`
+			);
+		}
+	}
+}
+
+function getBudgetConfig(): BudgetConfig {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	return {
+		daily: config.get<number>('budget.daily', 0),
+		monthly: config.get<number>('budget.monthly', 0),
+		perModel: config.get<Record<string, BudgetCaps>>('budget.perModel', {}),
+		warningThreshold: config.get<number>('budget.warningThreshold', 0.8),
+	};
+}
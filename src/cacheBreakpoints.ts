@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+
+export type BreakpointStrategy = 'system+last' | 'tools+system+last' | 'rolling-last-n' | 'largest-blocks';
+
+/** Anthropic honours at most four cache_control breakpoints per request. */
+export const MAX_CACHE_BREAKPOINTS = 4;
+
+export type BreakpointConfig = {
+	strategy: BreakpointStrategy;
+	/** Breakpoints used by every strategy except `system+last`, 1 to 4. */
+	count: number;
+};
+
+/** Where cache_control markers go: the last tool definition and message indices in ascending order. */
+export type BreakpointPlan = {
+	tools: boolean;
+	messages: number[];
+};
+
+export function getBreakpointConfig(): BreakpointConfig {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const count = Math.floor(config.get<number>('promptCaching.breakpointCount', MAX_CACHE_BREAKPOINTS));
+	return {
+		strategy: config.get<BreakpointStrategy>('promptCaching.breakpointStrategy', 'system+last'),
+		count: Math.min(MAX_CACHE_BREAKPOINTS, Math.max(1, Number.isFinite(count) ? count : MAX_CACHE_BREAKPOINTS)),
+	};
+}
+
+/**
+ * Picks the cache breakpoints for a request. Each breakpoint caches everything before it, so:
+ * - `system+last` marks the first two system messages and the last two other messages.
+ * - `tools+system+last` marks the tool definitions, the end of the leading system messages, and
+ *   the most recent messages with the breakpoints left over.
+ * - `rolling-last-n` marks the last n messages, so the cache follows the conversation.
+ * - `largest-blocks` marks the last message and the largest other messages, such as long system
+ *   prompts or big attachments, so each is cached right after it.
+ */
+export function planCacheBreakpoints(
+	messages: readonly { role?: string }[],
+	config: BreakpointConfig,
+	options: { hasTools: boolean; sizeOf: (message: { role?: string }) => number }
+): BreakpointPlan {
+	const selected = new Set<number>();
+	let tools = false;
+
+	switch (config.strategy) {
+		case 'tools+system+last': {
+			let budget = config.count;
+			if (options.hasTools && budget > 0) {
+				tools = true;
+				budget--;
+			}
+			let leadingSystemEnd = -1;
+			while (messages[leadingSystemEnd + 1]?.role === 'system') {
+				leadingSystemEnd++;
+			}
+			if (leadingSystemEnd >= 0 && budget > 0) {
+				selected.add(leadingSystemEnd);
+				budget--;
+			}
+			for (let index = messages.length - 1; index > leadingSystemEnd && budget > 0; index--) {
+				selected.add(index);
+				budget--;
+			}
+			break;
+		}
+		case 'rolling-last-n':
+			for (let index = Math.max(0, messages.length - config.count); index < messages.length; index++) {
+				selected.add(index);
+			}
+			break;
+		case 'largest-blocks': {
+			if (messages.length === 0) {
+				break;
+			}
+			selected.add(messages.length - 1);
+			const bySize = messages
+				.slice(0, -1)
+				.map((message, index) => ({ index, size: options.sizeOf(message) }))
+				// Ties go to the later message, which caches the longer prefix.
+				.sort((a, b) => b.size - a.size || b.index - a.index);
+			for (const { index } of bySize.slice(0, config.count - 1)) {
+				selected.add(index);
+			}
+			break;
+		}
+		case 'system+last':
+		default: {
+			const systemIndices: number[] = [];
+			const otherIndices: number[] = [];
+			messages.forEach((message, index) => (message?.role === 'system' ? systemIndices : otherIndices).push(index));
+			for (const index of [...systemIndices.slice(0, 2), ...otherIndices.slice(-2)]) {
+				selected.add(index);
+			}
+			break;
+		}
+	}
+
+	return { tools, messages: [...selected].sort((a, b) => a - b) };
+}
+
+/** One line per breakpoint with the marked message's estimated size and the cached prefix up to it. */
+export function describeCacheBreakpoints(
+	plan: BreakpointPlan,
+	messages: readonly { role?: string }[],
+	sizes: { tools: number; sizeOf: (message: { role?: string }) => number }
+): string[] {
+	const lines: string[] = [];
+	let prefix = sizes.tools;
+	if (plan.tools) {
+		lines.push(`tool definitions: ~${sizes.tools} tokens`);
+	}
+	const marked = new Set(plan.messages);
+	messages.forEach((message, index) => {
+		const size = sizes.sizeOf(message);
+		prefix += size;
+		if (marked.has(index)) {
+			lines.push(`message #${index} (${message?.role}): ~${size} tokens, cached prefix ~${prefix} tokens`);
+		}
+	});
+	return lines;
+}
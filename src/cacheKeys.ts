@@ -0,0 +1,61 @@
+import { createHash, randomUUID } from 'crypto';
+import * as vscode from 'vscode';
+
+export type CacheKeyScope = 'workspace' | 'global' | 'conversation' | 'none';
+
+const SESSION_STORAGE_KEY = 'opencodeZen.requestSessionId';
+
+/**
+ * Returns the session id sent as `x-opencode-session` and used as the prompt cache key.
+ * `global` keeps one id in global state and `workspace` one per workspace. `conversation` derives the
+ * id from the system messages and the first user message, so it stays the same for every turn of a
+ * chat and parallel chats don't evict each other's cache. `none` sends no cache key but still
+ * needs a session id, so it uses the workspace one.
+ */
+export async function resolveSessionId(
+	context: vscode.ExtensionContext,
+	scope: CacheKeyScope,
+	messages: readonly vscode.LanguageModelChatRequestMessage[]
+): Promise<string> {
+	if (scope === 'conversation') {
+		const id = conversationId(messages);
+		if (id) {
+			return id;
+		}
+	}
+
+	const state = scope === 'global' ? context.globalState : context.workspaceState;
+	let id = state.get<string>(SESSION_STORAGE_KEY);
+	if (!id) {
+		id = randomUUID();
+		await state.update(SESSION_STORAGE_KEY, id);
+	}
+	return id;
+}
+
+/** Hashes the messages up to and including the first user message; undefined without one. */
+function conversationId(messages: readonly vscode.LanguageModelChatRequestMessage[]): string | undefined {
+	const hash = createHash('sha256');
+	for (const message of messages) {
+		if (message.role === vscode.LanguageModelChatMessageRole.Assistant) {
+			continue;
+		}
+		hash.update(`m:${message.role}:`);
+		for (const part of message.content) {
+			if (part instanceof vscode.LanguageModelTextPart) {
+				hash.update('t:').update(part.value);
+			} else if (part instanceof vscode.LanguageModelDataPart && part.mimeType !== 'cache_control') {
+				hash.update(`d:${part.mimeType}:`).update(part.data);
+			}
+		}
+		if (message.role === vscode.LanguageModelChatMessageRole.User) {
+			return formatAsUuid(hash.digest('hex'));
+		}
+	}
+	return undefined;
+}
+
+/** Shapes a hex digest like the random session ids so both look the same in headers and logs. */
+function formatAsUuid(hex: string): string {
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { redactHeaders } from './network';
+import { getOutputChannel } from './output';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type CassetteConfig = {
+	mode: Exclude<CassetteMode, 'off'>;
+	directory: string;
+};
+
+/** One recorded HTTP exchange. Bodies are kept verbatim; the response body is the decoded stream. */
+export type Cassette = {
+	version: number;
+	recordedAt: string;
+	/** Match key, see `cassetteKey`. */
+	key: string;
+	request: { method: string; url: string; headers: Record<string, string>; body?: string };
+	response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+	/** Set when the response stream failed or was cancelled before it ended. */
+	incomplete?: boolean;
+};
+
+const CASSETTE_VERSION = 1;
+/** Top-level body fields that change between workspaces or sessions and are left out of the match key. */
+const VOLATILE_BODY_FIELDS = ['prompt_cache_key', 'user', 'safety_identifier', 'metadata'];
+/** Headers that describe the encoded wire body, which no longer apply to the stored decoded body. */
+const ENCODING_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+/**
+ * Reads `opencodeZen.cassettes.*`. Returns undefined when recording and replay are off. Without a
+ * configured directory, cassettes live in the extension's global storage.
+ */
+export function getCassetteConfig(context: vscode.ExtensionContext): CassetteConfig | undefined {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const mode = config.get<CassetteMode>('cassettes.mode', 'off');
+	if (mode !== 'record' && mode !== 'replay') {
+		return undefined;
+	}
+	const directory = config.get<string>('cassettes.directory', '').trim();
+	return { mode, directory: directory || path.join(context.globalStorageUri.fsPath, 'cassettes') };
+}
+
+/**
+ * Wraps `fetch` for the configured cassette mode: `record` passes requests through to `baseFetch`
+ * and saves each exchange, `replay` serves responses from cassettes and never touches the network.
+ */
+export function withCassettes(baseFetch: typeof fetch, config: CassetteConfig | undefined): typeof fetch {
+	if (!config) {
+		return baseFetch;
+	}
+	return config.mode === 'replay' ? createReplayFetch(config.directory) : createRecordingFetch(baseFetch, config.directory);
+}
+
+/**
+ * Requests match a cassette by method, URL and body. Volatile top-level body fields such as the
+ * prompt cache key are ignored so a cassette recorded in one workspace replays in another.
+ */
+export function cassetteKey(method: string, url: string, body: string | undefined): string {
+	let normalized = body ?? '';
+	try {
+		const parsed = JSON.parse(normalized);
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			for (const field of VOLATILE_BODY_FIELDS) {
+				delete parsed[field];
+			}
+			normalized = JSON.stringify(parsed);
+		}
+	} catch {
+		// Not JSON; match on the raw body.
+	}
+	return createHash('sha1').update(`${method.toUpperCase()} ${url}\n${normalized}`).digest('hex').slice(0, 16);
+}
+
+export function createRecordingFetch(baseFetch: typeof fetch, directory: string): typeof fetch {
+	return async (input, init) => {
+		const request = new Request(input, init);
+		const requestBody = request.body ? await request.clone().text() : undefined;
+		const response = await baseFetch(request);
+
+		const cassette: Cassette = {
+			version: CASSETTE_VERSION,
+			recordedAt: new Date().toISOString(),
+			key: cassetteKey(request.method, request.url, requestBody),
+			request: { method: request.method, url: request.url, headers: redactHeaders(request.headers), body: requestBody },
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: withoutEncodingHeaders(redactHeaders(response.headers)),
+				body: '',
+			},
+		};
+
+		if (!response.body) {
+			void saveCassette(directory, cassette);
+			return response;
+		}
+
+		// Hand one branch to the caller and record the other as it streams in.
+		const [forCaller, forCassette] = response.body.tee();
+		void readAll(forCassette).then(({ text, complete }) => {
+			cassette.response.body = text;
+			if (!complete) {
+				cassette.incomplete = true;
+			}
+			return saveCassette(directory, cassette);
+		});
+		return new Response(forCaller, { status: response.status, statusText: response.statusText, headers: response.headers });
+	};
+}
+
+export function createReplayFetch(directory: string): typeof fetch {
+	return async (input, init) => {
+		const request = new Request(input, init);
+		const requestBody = request.body ? await request.text() : undefined;
+		const key = cassetteKey(request.method, request.url, requestBody);
+		const cassette = await loadCassette(directory, key);
+		if (!cassette) {
+			throw new Error(`No cassette in ${directory} matches ${request.method} ${request.url} (key ${key}).`);
+		}
+		if (request.signal.aborted) {
+			throw request.signal.reason;
+		}
+
+		getOutputChannel().info(`Replaying cassette ${key} (recorded ${cassette.recordedAt}) for ${request.method} ${request.url}.`);
+		const hasBody = cassette.response.status !== 204 && cassette.response.status !== 304;
+		return new Response(hasBody ? cassette.response.body : null, {
+			status: cassette.response.status,
+			statusText: cassette.response.statusText,
+			headers: withoutEncodingHeaders(cassette.response.headers),
+		});
+	};
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<{ text: string; complete: boolean }> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder('utf-8');
+	let text = '';
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) {
+				return { text: text + decoder.decode(), complete: true };
+			}
+			text += decoder.decode(value, { stream: true });
+		}
+	} catch {
+		return { text: text + decoder.decode(), complete: false };
+	}
+}
+
+async function saveCassette(directory: string, cassette: Cassette): Promise<void> {
+	// Timestamp first so a directory listing is in recording order; the key suffix is used for lookup.
+	const fileName = `${cassette.recordedAt.replace(/[:.]/g, '-')}-${cassette.key}.json`;
+	const filePath = path.join(directory, fileName);
+	try {
+		await mkdir(directory, { recursive: true });
+		await writeFile(filePath, JSON.stringify(cassette, null, 2), 'utf-8');
+		getOutputChannel().info(`Recorded cassette ${filePath}${cassette.incomplete ? ' (incomplete response)' : ''}.`);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		getOutputChannel().warn(`Could not write cassette ${filePath}: ${message}`);
+	}
+}
+
+/** Loads the most recent cassette recorded for `key`. */
+async function loadCassette(directory: string, key: string): Promise<Cassette | undefined> {
+	let files: string[];
+	try {
+		files = await readdir(directory);
+	} catch {
+		return undefined;
+	}
+	const matches = files.filter((file) => file.endsWith(`-${key}.json`) || file === `${key}.json`).sort();
+	for (const file of matches.reverse()) {
+		try {
+			const parsed = JSON.parse(await readFile(path.join(directory, file), 'utf-8')) as Cassette;
+			if (parsed?.version === CASSETTE_VERSION && parsed.response && typeof parsed.response.body === 'string') {
+				return parsed;
+			}
+		} catch {
+			// Skip unreadable cassettes and try an older recording.
+		}
+	}
+	return undefined;
+}
+
+function withoutEncodingHeaders(headers: Record<string, string>): Record<string, string> {
+	const out: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (!ENCODING_HEADERS.includes(name.toLowerCase())) {
+			out[name] = value;
+		}
+	}
+	return out;
+}
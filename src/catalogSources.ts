@@ -0,0 +1,156 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { ModelsDevProvider } from './modelRegistry';
+import { getNetworkFetch } from './network';
+
+export const DEFAULT_CATALOG_URL = 'https://models.dev/api.json';
+
+const BUNDLED_CATALOG_PATH = ['assets', 'models-catalog.json'];
+
+export type CatalogSourceKind = 'file' | 'url' | 'bundled';
+
+export type CatalogJson = Record<string, ModelsDevProvider>;
+
+export interface CatalogSource {
+	readonly kind: CatalogSourceKind;
+	/** Human readable location, used in log output. */
+	readonly description: string;
+	load(): Promise<CatalogJson>;
+}
+
+export class HttpCatalogSource implements CatalogSource {
+	readonly kind = 'url';
+
+	constructor(private readonly url: string) {}
+
+	get description(): string {
+		return this.url;
+	}
+
+	async load(): Promise<CatalogJson> {
+		const response = await getNetworkFetch()(this.url, {
+			headers: { 'accept': 'application/json' },
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to fetch models from ${this.url}: ${response.status} ${response.statusText}`);
+		}
+		return parseCatalogJson(await response.text(), this.url);
+	}
+}
+
+export class FileCatalogSource implements CatalogSource {
+	readonly kind = 'file';
+
+	constructor(readonly uri: vscode.Uri) {}
+
+	get description(): string {
+		return this.uri.fsPath;
+	}
+
+	async load(): Promise<CatalogJson> {
+		const raw = await vscode.workspace.fs.readFile(this.uri);
+		return parseCatalogJson(new TextDecoder('utf-8').decode(raw), this.uri.fsPath);
+	}
+
+	watch(onChange: () => void): vscode.Disposable {
+		const pattern = new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.uri.fsPath)), path.basename(this.uri.fsPath));
+		const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+		watcher.onDidChange(onChange);
+		watcher.onDidCreate(onChange);
+		watcher.onDidDelete(onChange);
+		return watcher;
+	}
+}
+
+export class BundledCatalogSource implements CatalogSource {
+	readonly kind = 'bundled';
+
+	constructor(private readonly extensionUri: vscode.Uri) {}
+
+	get description(): string {
+		return 'bundled snapshot';
+	}
+
+	async load(): Promise<CatalogJson> {
+		const uri = vscode.Uri.joinPath(this.extensionUri, ...BUNDLED_CATALOG_PATH);
+		let raw: Uint8Array;
+		try {
+			raw = await vscode.workspace.fs.readFile(uri);
+		} catch {
+			throw new Error('No bundled model catalog snapshot is shipped with this build.');
+		}
+		return parseCatalogJson(new TextDecoder('utf-8').decode(raw), this.description);
+	}
+}
+
+/**
+ * Builds the ordered list of catalog sources from `opencodeZen.catalog.*` settings.
+ * A file source is only included when `opencodeZen.catalog.filePath` is set.
+ */
+export function createCatalogSources(context: vscode.ExtensionContext): CatalogSource[] {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const order = config.get<CatalogSourceKind[]>('catalog.sources', ['file', 'url', 'bundled']);
+	const url = config.get<string>('catalog.url', DEFAULT_CATALOG_URL).trim() || DEFAULT_CATALOG_URL;
+	const fileUri = resolveCatalogFile(config.get<string>('catalog.filePath', ''));
+
+	const sources: CatalogSource[] = [];
+	for (const kind of new Set(order)) {
+		if (kind === 'file' && fileUri) {
+			sources.push(new FileCatalogSource(fileUri));
+		} else if (kind === 'url') {
+			sources.push(new HttpCatalogSource(url));
+		} else if (kind === 'bundled') {
+			sources.push(new BundledCatalogSource(context.extensionUri));
+		}
+	}
+	return sources;
+}
+
+/**
+ * Tries each source in order and returns the first catalog that loads, along with the
+ * failures of the sources tried before it. Throws an aggregated error when every source fails.
+ */
+export async function loadCatalogFromSources(
+	sources: readonly CatalogSource[]
+): Promise<{ json: CatalogJson; source: CatalogSource; failures: string[] }> {
+	const failures: string[] = [];
+	for (const source of sources) {
+		try {
+			return { json: await source.load(), source, failures };
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			failures.push(`${source.kind} (${source.description}): ${message}`);
+		}
+	}
+
+	if (failures.length === 0) {
+		throw new Error('No model catalog sources are configured.');
+	}
+	throw new Error(`All model catalog sources failed. ${failures.join('; ')}`);
+}
+
+function parseCatalogJson(text: string, label: string): CatalogJson {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		throw new Error(`Invalid model catalog JSON from ${label}: ${message}`);
+	}
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error(`Invalid model catalog from ${label}: expected an object keyed by provider id.`);
+	}
+	return parsed as CatalogJson;
+}
+
+function resolveCatalogFile(filePath: string | undefined): vscode.Uri | undefined {
+	const trimmed = filePath?.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+	if (path.isAbsolute(trimmed)) {
+		return vscode.Uri.file(trimmed);
+	}
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, trimmed) : vscode.Uri.file(path.resolve(trimmed));
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import type { ModelsDevProvider } from './modelRegistry';
+
+const CATALOG_FILE_NAME = 'models-catalog.json';
+const CATALOG_SNAPSHOT_VERSION = 1;
+
+export type ProviderDefaults = { npm: string; api: string };
+
+export type ModelRequestMetadata = {
+	headers?: Record<string, string>;
+	options?: Record<string, unknown>;
+	originalModelId?: string;
+};
+
+export type CatalogSnapshot = {
+	version: number;
+	fetchedAtMs: number;
+	/** Catalog source that produced this snapshot, e.g. `url: https://models.dev/api.json`. */
+	source?: string;
+	providers: Record<string, ModelsDevProvider>;
+	providerDefaults: Record<string, ProviderDefaults>;
+	modelProviderOverrides: Record<string, string>;
+	modelRequestMetadata: Record<string, ModelRequestMetadata>;
+	modelProviderApi: Record<string, string>;
+};
+
+export async function readCatalogSnapshot(context: vscode.ExtensionContext): Promise<CatalogSnapshot | undefined> {
+	const uri = vscode.Uri.joinPath(context.globalStorageUri, CATALOG_FILE_NAME);
+	let raw: Uint8Array;
+	try {
+		raw = await vscode.workspace.fs.readFile(uri);
+	} catch {
+		return undefined;
+	}
+
+	try {
+		const parsed = JSON.parse(new TextDecoder('utf-8').decode(raw)) as CatalogSnapshot;
+		if (parsed?.version !== CATALOG_SNAPSHOT_VERSION || !parsed.providers || typeof parsed.fetchedAtMs !== 'number') {
+			return undefined;
+		}
+		return parsed;
+	} catch {
+		// A corrupt snapshot is treated as missing; the next successful fetch overwrites it.
+		return undefined;
+	}
+}
+
+export async function writeCatalogSnapshot(context: vscode.ExtensionContext, snapshot: CatalogSnapshot): Promise<void> {
+	await vscode.workspace.fs.createDirectory(context.globalStorageUri);
+	const uri = vscode.Uri.joinPath(context.globalStorageUri, CATALOG_FILE_NAME);
+	const data = new TextEncoder().encode(JSON.stringify({ ...snapshot, version: CATALOG_SNAPSHOT_VERSION }));
+	await vscode.workspace.fs.writeFile(uri, data);
+}
@@ -0,0 +1,439 @@
+import { createHash } from 'crypto';
+import * as vscode from 'vscode';
+import { getOutputChannel } from './output';
+import { MESSAGE_OVERHEAD_TOKENS, TOOL_PART_OVERHEAD_TOKENS, type TokenCounter } from './tokenCounter';
+
+export type ContextStrategy = 'dropOldest' | 'truncateToolResults' | 'summarize';
+
+export type ContextManagementConfig = {
+	enabled: boolean;
+	strategy: ContextStrategy;
+	/** Fraction of `maxInputTokens` the request may use, leaving headroom for estimation error. */
+	threshold: number;
+	/** Most recent messages that are never dropped or summarized. */
+	preserveRecentMessages: number;
+	toolResultMaxTokens: number;
+	/** Model used for summaries; empty means the model that answers the request. */
+	summaryModel: string;
+};
+
+/** Produces a summary of a rendered transcript of older messages. */
+export type Summarizer = (transcript: string, abortSignal: AbortSignal) => Promise<string>;
+
+/**
+ * One message, or an assistant message with tool calls plus the tool messages that answer it.
+ * Blocks are trimmed as a whole so tool-call/tool-result pairs always stay together.
+ */
+type Block = { messages: any[]; tokens: number };
+
+type CountContext = {
+	model: Pick<vscode.LanguageModelChatInformation, 'id' | 'family'>;
+	providerNpm?: string;
+};
+
+/** Tokens reserved for the summary message when deciding how much history to summarize. */
+const SUMMARY_ALLOWANCE_TOKENS = 2_000;
+/** Longest single tool result or message included verbatim in a summarization transcript. */
+const TRANSCRIPT_PART_MAX_CHARS = 4_000;
+const MAX_CACHED_SUMMARIES = 50;
+
+export function getContextManagementConfig(): ContextManagementConfig {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	return {
+		enabled: config.get<boolean>('contextManagement.enabled', false),
+		strategy: config.get<ContextStrategy>('contextManagement.strategy', 'truncateToolResults'),
+		threshold: Math.min(1, Math.max(0.1, config.get<number>('contextManagement.threshold', 0.9))),
+		preserveRecentMessages: Math.max(1, Math.floor(config.get<number>('contextManagement.preserveRecentMessages', 6))),
+		toolResultMaxTokens: Math.max(100, Math.floor(config.get<number>('contextManagement.toolResultMaxTokens', 4_000))),
+		summaryModel: config.get<string>('contextManagement.summaryModel', '').trim(),
+	};
+}
+
+/**
+ * Keeps converted AI SDK messages within the model's advertised input limit (opt-in via
+ * `opencodeZen.contextManagement.*`). The configured strategy runs first; if the conversation
+ * still does not fit, the oldest messages are dropped and then oversized tool results truncated.
+ */
+export class ContextManager {
+	private readonly summaries = new Map<string, string>();
+
+	constructor(private readonly tokenCounter: TokenCounter) {}
+
+	async fit(
+		model: vscode.LanguageModelChatInformation,
+		messages: any[],
+		options: {
+			tools?: readonly vscode.LanguageModelChatTool[];
+			providerNpm?: string;
+			summarize: Summarizer;
+			abortSignal: AbortSignal;
+		}
+	): Promise<any[]> {
+		const config = getContextManagementConfig();
+		if (!config.enabled) {
+			return messages;
+		}
+
+		const ctx: CountContext = { model, providerNpm: options.providerNpm };
+		const toolTokens = options.tools?.length ? this.countText(ctx, JSON.stringify(options.tools)) : 0;
+		const budget = Math.floor(model.maxInputTokens * config.threshold) - toolTokens;
+		const before = this.countMessages(ctx, messages);
+		if (before <= budget) {
+			return messages;
+		}
+
+		const output = getOutputChannel();
+		output.info(`Context for ${model.id} is ~${before} tokens, over the ${budget} token budget; applying "${config.strategy}".`);
+
+		let fitted = messages;
+		if (config.strategy === 'truncateToolResults') {
+			fitted = this.truncateToolResults(ctx, fitted, budget, config.toolResultMaxTokens);
+		} else if (config.strategy === 'summarize') {
+			try {
+				fitted = await this.summarizeOldest(ctx, fitted, budget, config, options.summarize, options.abortSignal);
+			} catch (err) {
+				if (options.abortSignal.aborted) {
+					throw err;
+				}
+				const message = err instanceof Error ? err.message : String(err);
+				output.warn(`Summarizing older messages failed (${message}); dropping them instead.`);
+			}
+		}
+
+		if (this.countMessages(ctx, fitted) > budget) {
+			fitted = this.dropOldest(ctx, fitted, budget, config.preserveRecentMessages);
+		}
+		if (config.strategy !== 'truncateToolResults' && this.countMessages(ctx, fitted) > budget) {
+			// The preserved recent messages alone are too large; shortening their tool results is the last resort.
+			fitted = this.truncateToolResults(ctx, fitted, budget, config.toolResultMaxTokens);
+		}
+
+		const after = this.countMessages(ctx, fitted);
+		if (after > budget) {
+			output.warn(`Context for ${model.id} is still ~${after} tokens after trimming; sending it anyway.`);
+		} else {
+			output.info(`Context for ${model.id} trimmed from ~${before} to ~${after} tokens.`);
+		}
+		return fitted;
+	}
+
+	/**
+	 * Replaces the middle of oversized tool results with an elision marker, oldest first, until the
+	 * conversation fits.
+	 */
+	private truncateToolResults(ctx: CountContext, messages: any[], budget: number, maxTokens: number): any[] {
+		let total = this.countMessages(ctx, messages);
+		let truncated = 0;
+		const out = messages.map((message) => {
+			if (total <= budget || message.role !== 'tool' || !Array.isArray(message.content)) {
+				return message;
+			}
+			const content = message.content.map((part: any) => {
+				if (total <= budget || part?.type !== 'tool-result') {
+					return part;
+				}
+				const before = this.countToolOutput(ctx, part.output);
+				const output = this.elideToolOutput(ctx, part.output, maxTokens);
+				if (output === part.output) {
+					return part;
+				}
+				truncated++;
+				total -= before - this.countToolOutput(ctx, output);
+				return { ...part, output };
+			});
+			return { ...message, content };
+		});
+
+		if (truncated > 0) {
+			getOutputChannel().info(`Truncated ${truncated} tool result(s) to ~${maxTokens} tokens each.`);
+		}
+		return out;
+	}
+
+	/**
+	 * Drops the oldest blocks after any leading system messages, keeping the most recent messages,
+	 * and leaves a note where history was removed.
+	 */
+	private dropOldest(ctx: CountContext, messages: any[], budget: number, preserveRecentMessages: number): any[] {
+		const { head, blocks, protectedFrom } = this.splitBlocks(ctx, messages, preserveRecentMessages);
+		let total = this.countMessages(ctx, messages);
+		let dropBlocks = 0;
+		let droppedMessages = 0;
+		while (total > budget && dropBlocks < protectedFrom) {
+			total -= blocks[dropBlocks].tokens;
+			droppedMessages += blocks[dropBlocks].messages.length;
+			dropBlocks++;
+		}
+		if (dropBlocks === 0) {
+			return messages;
+		}
+
+		getOutputChannel().info(`Dropped the ${droppedMessages} oldest message(s) to fit the context window.`);
+		const note = `[${droppedMessages} earlier message(s) were removed to fit the context window.]`;
+		return withHistoryNote(head, blocks.slice(dropBlocks).flatMap((block) => block.messages), note);
+	}
+
+	/**
+	 * Replaces the oldest blocks with a summary. Summaries are cached per summarized prefix so
+	 * follow-up requests in the same conversation reuse them instead of summarizing again.
+	 */
+	private async summarizeOldest(
+		ctx: CountContext,
+		messages: any[],
+		budget: number,
+		config: ContextManagementConfig,
+		summarize: Summarizer,
+		abortSignal: AbortSignal
+	): Promise<any[]> {
+		const { head, blocks, protectedFrom } = this.splitBlocks(ctx, messages, config.preserveRecentMessages);
+		if (protectedFrom === 0) {
+			return messages;
+		}
+
+		const headTokens = this.countMessages(ctx, head);
+		const suffixTokens: number[] = new Array(blocks.length + 1).fill(0);
+		for (let index = blocks.length - 1; index >= 0; index--) {
+			suffixTokens[index] = suffixTokens[index + 1] + blocks[index].tokens;
+		}
+		const prefixKeys: string[] = [''];
+		for (let index = 0; index < protectedFrom; index++) {
+			const hash = createHash('sha1').update(prefixKeys[index]).update(renderTranscript(blocks[index].messages));
+			prefixKeys.push(hash.digest('hex'));
+		}
+
+		const fits = (count: number, target: number) => headTokens + SUMMARY_ALLOWANCE_TOKENS + suffixTokens[count] <= target;
+		let minimum = 1;
+		while (minimum < protectedFrom && !fits(minimum, budget)) {
+			minimum++;
+		}
+
+		// Prefer the longest cached summary that still leaves the rest of the conversation intact.
+		let count = protectedFrom;
+		while (count >= minimum && !this.summaries.has(prefixKeys[count])) {
+			count--;
+		}
+
+		let summary: string;
+		if (count >= minimum) {
+			summary = this.summaries.get(prefixKeys[count])!;
+		} else {
+			// Summarize down to half the budget so the next few turns don't immediately need a new summary.
+			count = minimum;
+			while (count < protectedFrom && !fits(count, budget / 2)) {
+				count++;
+			}
+			const transcript = blocks.slice(0, count).map((block) => renderTranscript(block.messages)).join('\n\n');
+			summary = (await summarize(transcript, abortSignal)).trim();
+			if (!summary) {
+				throw new Error('Summary model returned no text');
+			}
+			this.summaries.set(prefixKeys[count], summary);
+			if (this.summaries.size > MAX_CACHED_SUMMARIES) {
+				const oldest = this.summaries.keys().next().value;
+				if (oldest !== undefined) {
+					this.summaries.delete(oldest);
+				}
+			}
+		}
+
+		const summarizedMessages = blocks.slice(0, count).reduce((sum, block) => sum + block.messages.length, 0);
+		getOutputChannel().info(`Summarized the ${summarizedMessages} oldest message(s) to fit the context window.`);
+		const note = `[Summary of ${summarizedMessages} earlier message(s), condensed to fit the context window]\n\n${summary}`;
+		return withHistoryNote(head, blocks.slice(count).flatMap((block) => block.messages), note);
+	}
+
+	/**
+	 * Splits messages into leading system messages and trimmable blocks. Blocks at or after
+	 * `protectedFrom` overlap the most recent `preserveRecentMessages` messages.
+	 */
+	private splitBlocks(
+		ctx: CountContext,
+		messages: any[],
+		preserveRecentMessages: number
+	): { head: any[]; blocks: Block[]; protectedFrom: number } {
+		let start = 0;
+		while (start < messages.length && messages[start].role === 'system') {
+			start++;
+		}
+
+		const blocks: Block[] = [];
+		const blockStarts: number[] = [];
+		for (let index = start; index < messages.length; index++) {
+			const message = messages[index];
+			const previous = blocks[blocks.length - 1];
+			if (message.role === 'tool' && previous && previous.messages.some(hasToolCalls)) {
+				previous.messages.push(message);
+				previous.tokens += this.countMessage(ctx, message);
+				continue;
+			}
+			blocks.push({ messages: [message], tokens: this.countMessage(ctx, message) });
+			blockStarts.push(index);
+		}
+
+		const firstProtectedMessage = Math.max(start, messages.length - preserveRecentMessages);
+		let protectedFrom = blocks.length;
+		while (protectedFrom > 0 && blockStarts[protectedFrom - 1] + blocks[protectedFrom - 1].messages.length > firstProtectedMessage) {
+			protectedFrom--;
+		}
+		return { head: messages.slice(0, start), blocks, protectedFrom };
+	}
+
+	private elideToolOutput(ctx: CountContext, output: any, maxTokens: number): any {
+		if (output?.type === 'text' && typeof output.value === 'string') {
+			const value = this.elideText(ctx, output.value, maxTokens);
+			return value === output.value ? output : { ...output, value };
+		}
+		if (output?.type === 'content' && Array.isArray(output.value)) {
+			let changed = false;
+			const value = output.value.map((part: any) => {
+				if (part?.type !== 'text' || typeof part.text !== 'string') {
+					return part;
+				}
+				const text = this.elideText(ctx, part.text, maxTokens);
+				changed ||= text !== part.text;
+				return text === part.text ? part : { ...part, text };
+			});
+			return changed ? { ...output, value } : output;
+		}
+		return output;
+	}
+
+	private elideText(ctx: CountContext, text: string, maxTokens: number): string {
+		const tokens = this.countText(ctx, text);
+		if (tokens <= maxTokens) {
+			return text;
+		}
+		const keepChars = Math.floor(((text.length / tokens) * maxTokens) / 2);
+		const elided = tokens - maxTokens;
+		return `${text.slice(0, keepChars)}\n\n[... ~${elided} tokens elided to fit the context window ...]\n\n${text.slice(-keepChars)}`;
+	}
+
+	/** Estimated tokens of one converted AI SDK message, as counted when fitting the context. */
+	estimateMessageTokens(model: vscode.LanguageModelChatInformation, message: any, providerNpm?: string): number {
+		return this.countMessage({ model, providerNpm }, message);
+	}
+
+	private countMessages(ctx: CountContext, messages: readonly any[]): number {
+		return messages.reduce((sum, message) => sum + this.countMessage(ctx, message), 0);
+	}
+
+	private countMessage(ctx: CountContext, message: any): number {
+		if (typeof message.content === 'string') {
+			return MESSAGE_OVERHEAD_TOKENS + this.countText(ctx, message.content);
+		}
+		let tokens = MESSAGE_OVERHEAD_TOKENS;
+		for (const part of Array.isArray(message.content) ? message.content : []) {
+			switch (part?.type) {
+				case 'text':
+				case 'reasoning':
+					tokens += this.countText(ctx, part.text ?? '');
+					break;
+				case 'image':
+					tokens += this.countBinary(ctx, part.image, part.mimeType ?? part.mediaType ?? 'image/png');
+					break;
+				case 'file':
+					tokens += this.countBinary(ctx, part.data, part.mimeType ?? part.mediaType ?? 'application/octet-stream');
+					break;
+				case 'tool-call':
+					tokens += TOOL_PART_OVERHEAD_TOKENS + this.countText(ctx, `${part.toolName}${JSON.stringify(part.input ?? {})}`);
+					break;
+				case 'tool-result':
+					tokens += TOOL_PART_OVERHEAD_TOKENS + this.countToolOutput(ctx, part.output);
+					break;
+			}
+		}
+		return tokens;
+	}
+
+	private countToolOutput(ctx: CountContext, output: any): number {
+		if (output?.type === 'text') {
+			return this.countText(ctx, output.value ?? '');
+		}
+		if (output?.type === 'content' && Array.isArray(output.value)) {
+			let tokens = 0;
+			for (const part of output.value) {
+				if (part?.type === 'text') {
+					tokens += this.countText(ctx, part.text ?? '');
+				} else if (part?.type === 'image-data' || part?.type === 'file-data') {
+					tokens += this.countBinary(ctx, Buffer.from(part.data ?? '', 'base64'), part.mediaType ?? 'application/octet-stream');
+				} else {
+					tokens += this.countText(ctx, JSON.stringify(part) ?? '');
+				}
+			}
+			return tokens;
+		}
+		return this.countText(ctx, JSON.stringify(output?.value ?? '') ?? '');
+	}
+
+	private countText(ctx: CountContext, text: string): number {
+		return text.length === 0 ? 0 : this.tokenCounter.count(ctx.model, text, ctx.providerNpm);
+	}
+
+	private countBinary(ctx: CountContext, data: unknown, mimeType: string): number {
+		if (!(data instanceof Uint8Array)) {
+			return this.countText(ctx, String(data ?? ''));
+		}
+		return this.tokenCounter.countData(ctx.model, data, mimeType, ctx.providerNpm);
+	}
+}
+
+/**
+ * Puts a note about removed history in front of the remaining messages without creating two user
+ * turns in a row: it joins the next user message, or the last system message before an assistant
+ * turn. Without either it becomes a user message of its own.
+ */
+function withHistoryNote(head: any[], rest: any[], note: string): any[] {
+	const [next, ...after] = rest;
+	if (next?.role === 'user') {
+		const content = typeof next.content === 'string' ? `${note}\n\n${next.content}` : [{ type: 'text', text: note }, ...next.content];
+		return [...head, { ...next, content }, ...after];
+	}
+	const lastSystem = head[head.length - 1];
+	if (typeof lastSystem?.content === 'string') {
+		return [...head.slice(0, -1), { ...lastSystem, content: `${lastSystem.content}\n\n${note}` }, ...rest];
+	}
+	return [...head, { role: 'user', content: note }, ...rest];
+}
+
+function hasToolCalls(message: any): boolean {
+	return message.role === 'assistant' && Array.isArray(message.content) && message.content.some((part: any) => part?.type === 'tool-call');
+}
+
+/** Plain-text rendering of messages for the summary model; binary content is replaced by placeholders. */
+function renderTranscript(messages: readonly any[]): string {
+	const clip = (text: string) =>
+		text.length > TRANSCRIPT_PART_MAX_CHARS
+			? `${text.slice(0, TRANSCRIPT_PART_MAX_CHARS / 2)}\n[...]\n${text.slice(-TRANSCRIPT_PART_MAX_CHARS / 2)}`
+			: text;
+	const role = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+	const lines: string[] = [];
+	for (const message of messages) {
+		if (typeof message.content === 'string') {
+			lines.push(`${role(message.role)}: ${clip(message.content)}`);
+			continue;
+		}
+		for (const part of Array.isArray(message.content) ? message.content : []) {
+			if (part?.type === 'text') {
+				lines.push(`${role(message.role)}: ${clip(part.text ?? '')}`);
+			} else if (part?.type === 'image' || part?.type === 'file') {
+				lines.push(`${role(message.role)}: [${part.type} attachment]`);
+			} else if (part?.type === 'tool-call') {
+				lines.push(`Assistant called ${part.toolName}: ${clip(JSON.stringify(part.input ?? {}))}`);
+			} else if (part?.type === 'tool-result') {
+				lines.push(`Result of ${part.toolName}: ${clip(renderToolOutput(part.output))}`);
+			}
+		}
+	}
+	return lines.join('\n');
+}
+
+function renderToolOutput(output: any): string {
+	if (output?.type === 'text') {
+		return output.value ?? '';
+	}
+	if (output?.type === 'content' && Array.isArray(output.value)) {
+		return output.value.map((part: any) => (part?.type === 'text' ? part.text : `[${part?.type ?? 'unknown'}]`)).join('\n');
+	}
+	return JSON.stringify(output?.value ?? '') ?? '';
+}
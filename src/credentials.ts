@@ -0,0 +1,111 @@
+import { readFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getOutputChannel } from './output';
+import { DEFAULT_PROFILE, getApiKey } from './secrets';
+
+export type CredentialSource = 'secretStorage' | 'environment' | 'opencodeCli';
+
+export type ResolvedCredential = {
+	apiKey: string;
+	source: CredentialSource;
+	/** Where the key came from, safe to show and log (never contains the key). */
+	description: string;
+};
+
+const DEFAULT_SOURCES: readonly CredentialSource[] = ['secretStorage', 'environment', 'opencodeCli'];
+/** Sources that hold one key for the whole machine, so only the default profile reads them. */
+const SHARED_SOURCES: readonly CredentialSource[] = ['environment', 'opencodeCli'];
+/** Provider id the opencode CLI stores the Zen key under in its auth file. */
+const OPENCODE_AUTH_PROVIDER_ID = 'opencode';
+
+let lastReported: string | undefined;
+
+/**
+ * Resolves the API key for `profile` from the sources in `opencodeZen.credentials.sources`, in
+ * order: the profile's key in SecretStorage, an environment variable (for dev containers) and the
+ * opencode CLI's auth file. The first source with a non-empty key wins. Named profiles only use
+ * SecretStorage, so a profile without its own key never silently bills the shared key.
+ */
+export async function resolveCredential(secrets: vscode.SecretStorage, profile: string): Promise<ResolvedCredential | undefined> {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const sources = config.get<CredentialSource[]>('credentials.sources', [...DEFAULT_SOURCES]);
+
+	for (const source of sources) {
+		if (profile !== DEFAULT_PROFILE && SHARED_SOURCES.includes(source)) {
+			continue;
+		}
+		const credential = await readSource(source, secrets, profile, config);
+		if (credential) {
+			reportSource(profile, credential);
+			return credential;
+		}
+	}
+	return undefined;
+}
+
+async function readSource(
+	source: CredentialSource,
+	secrets: vscode.SecretStorage,
+	profile: string,
+	config: vscode.WorkspaceConfiguration
+): Promise<ResolvedCredential | undefined> {
+	if (source === 'secretStorage') {
+		const apiKey = (await getApiKey(secrets, profile))?.trim();
+		return apiKey ? { apiKey, source, description: `SecretStorage (profile "${profile}")` } : undefined;
+	}
+
+	if (source === 'environment') {
+		const name = config.get<string>('credentials.environmentVariable', 'OPENCODE_API_KEY').trim();
+		const apiKey = name ? process.env[name]?.trim() : undefined;
+		return apiKey ? { apiKey, source, description: `environment variable ${name}` } : undefined;
+	}
+
+	if (source === 'opencodeCli') {
+		const filePath = getOpencodeAuthFilePath(config);
+		const apiKey = await readOpencodeAuthFile(filePath);
+		return apiKey ? { apiKey, source, description: `opencode CLI auth file (${filePath})` } : undefined;
+	}
+
+	return undefined;
+}
+
+/**
+ * The opencode CLI keeps credentials in `$XDG_DATA_HOME/opencode/auth.json`
+ * (`~/.local/share/opencode/auth.json` by default, on every platform).
+ */
+function getOpencodeAuthFilePath(config: vscode.WorkspaceConfiguration): string {
+	const configured = config.get<string>('credentials.opencodeAuthFile', '').trim();
+	if (configured) {
+		return configured.startsWith('~') ? path.join(os.homedir(), configured.slice(1)) : configured;
+	}
+	const dataHome = process.env.XDG_DATA_HOME?.trim() || path.join(os.homedir(), '.local', 'share');
+	return path.join(dataHome, 'opencode', 'auth.json');
+}
+
+async function readOpencodeAuthFile(filePath: string): Promise<string | undefined> {
+	let raw: string;
+	try {
+		raw = await readFile(filePath, 'utf-8');
+	} catch {
+		return undefined;
+	}
+	try {
+		const entry = JSON.parse(raw)?.[OPENCODE_AUTH_PROVIDER_ID];
+		if (entry?.type === 'api' && typeof entry.key === 'string' && entry.key.trim()) {
+			return entry.key.trim();
+		}
+	} catch {
+		getOutputChannel().warn(`Could not parse the opencode CLI auth file at ${filePath}.`);
+	}
+	return undefined;
+}
+
+function reportSource(profile: string, credential: ResolvedCredential): void {
+	const summary = `${profile}:${credential.description}`;
+	if (summary !== lastReported) {
+		lastReported = summary;
+		getOutputChannel().info(`Using the OpenCode API key from ${credential.description}.`);
+	}
+}
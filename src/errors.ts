@@ -0,0 +1,419 @@
+import * as vscode from 'vscode';
+import { getOutputChannel } from './output';
+
+export type ApiErrorDetails = {
+	statusCode?: number;
+	statusText?: string;
+	responseBody?: string;
+	requestId?: string;
+	url?: string;
+	requestBody?: unknown;
+	originalMessage?: string;
+	/** Error message reported by the upstream provider, when the response body carries one. */
+	providerMessage?: string;
+};
+
+export type ErrorAction = 'setApiKey' | 'switchModel' | 'showUsageReport' | 'showOutput';
+
+/**
+ * Base class for errors returned by OpenCode Zen or the provider behind it. Subclasses identify
+ * the failure so callers can decide whether to retry, fall back or ask the user to act.
+ */
+export class ZenApiError extends Error {
+	readonly kind: string = 'unknown';
+	/** Transient failures that may succeed when the same request is sent again. */
+	readonly retryable: boolean = false;
+	/** Failures another model is likely to avoid. */
+	readonly fallbackEligible: boolean = false;
+	readonly actions: readonly ErrorAction[] = [];
+
+	constructor(message: string, readonly details: ApiErrorDetails, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = new.target.name;
+		Object.assign(this, details);
+	}
+}
+
+export class AuthenticationError extends ZenApiError {
+	override readonly kind = 'authentication';
+	override readonly actions: readonly ErrorAction[] = ['setApiKey'];
+}
+
+export class RateLimitError extends ZenApiError {
+	override readonly kind = 'rateLimit';
+	override readonly retryable = true;
+	override readonly fallbackEligible = true;
+	override readonly actions: readonly ErrorAction[] = ['switchModel'];
+}
+
+export class QuotaExhaustedError extends ZenApiError {
+	override readonly kind = 'quotaExhausted';
+	override readonly actions: readonly ErrorAction[] = ['setApiKey', 'showUsageReport'];
+}
+
+export class ContextLengthExceededError extends ZenApiError {
+	override readonly kind = 'contextLengthExceeded';
+	override readonly actions: readonly ErrorAction[] = ['switchModel'];
+}
+
+export class ContentFilteredError extends ZenApiError {
+	override readonly kind = 'contentFiltered';
+	override readonly actions: readonly ErrorAction[] = ['switchModel'];
+}
+
+export class ModelNotFoundError extends ZenApiError {
+	override readonly kind = 'modelNotFound';
+	override readonly fallbackEligible = true;
+	override readonly actions: readonly ErrorAction[] = ['switchModel'];
+}
+
+export class ProviderOutageError extends ZenApiError {
+	override readonly kind = 'providerOutage';
+	override readonly retryable = true;
+	override readonly fallbackEligible = true;
+	override readonly actions: readonly ErrorAction[] = ['switchModel'];
+}
+
+export class NetworkError extends ZenApiError {
+	override readonly kind = 'network';
+	override readonly retryable = true;
+	override readonly fallbackEligible = true;
+	override readonly actions: readonly ErrorAction[] = ['showOutput'];
+}
+
+const NETWORK_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'UND_ERR_SOCKET',
+	'UND_ERR_CONNECT_TIMEOUT',
+	'UND_ERR_HEADERS_TIMEOUT',
+]);
+
+/**
+ * Classifies a provider failure from its status code and the error body shapes used by
+ * Anthropic (`error.type`), OpenAI and OpenAI-compatible APIs (`error.code` / `error.type`) and
+ * Google (`error.status`). Already classified errors are returned with the extra details merged.
+ */
+export function classifyApiError(err: unknown, extra?: Partial<ApiErrorDetails>): ZenApiError {
+	if (err instanceof ZenApiError) {
+		Object.assign(err.details, extra ?? {});
+		Object.assign(err, extra ?? {});
+		return err;
+	}
+
+	const details: ApiErrorDetails = { ...extractErrorDetails(err), ...(extra ?? {}) };
+	const body = parseErrorBody(details.responseBody);
+	details.providerMessage = body.message;
+
+	const status = details.statusCode;
+	const code = (body.code ?? '').toLowerCase();
+	const googleStatus = (body.status ?? '').toUpperCase();
+	const baseMessage = err instanceof Error ? err.message : String(err);
+	const text = `${baseMessage} ${body.message ?? ''}`.toLowerCase();
+	const cause = err instanceof Error ? err : undefined;
+	const withProviderMessage = (message: string) =>
+		body.message && !message.includes(body.message) ? `${message}\n\nProvider message: ${body.message}` : message;
+
+	if (status === undefined && isNetworkFailure(err)) {
+		return new NetworkError(
+			'Could not reach OpenCode Zen. Check your network connection and proxy settings, then try again.',
+			details,
+			{ cause }
+		);
+	}
+
+	if (status === 402 || code === 'insufficient_quota' || /insufficient (balance|credits?|funds)|out of credits|billing/.test(text)) {
+		return new QuotaExhaustedError(
+			withProviderMessage('Your OpenCode Zen balance or quota is exhausted. Top up your account or switch to a free model.'),
+			details,
+			{ cause }
+		);
+	}
+
+	// Before the context length check: a tokens-per-minute 429 also says "too many tokens".
+	if (
+		status === 429 ||
+		code === 'rate_limit_error' ||
+		code === 'rate_limit_exceeded' ||
+		googleStatus === 'RESOURCE_EXHAUSTED' ||
+		/rate limit|too many requests|(tokens|requests) per (minute|day)/.test(text)
+	) {
+		return new RateLimitError(
+			withProviderMessage('Rate limited by the model provider. Wait a moment and try again, or switch to another model.'),
+			details,
+			{ cause }
+		);
+	}
+
+	if (
+		code === 'context_length_exceeded' ||
+		/context length|context window|maximum context|prompt is too long|too many tokens|input is too long|exceeds the maximum number of tokens/.test(text)
+	) {
+		return new ContextLengthExceededError(
+			withProviderMessage('The conversation is longer than the model\'s context window. Start a new chat, remove attachments or switch to a model with a larger context.'),
+			details,
+			{ cause }
+		);
+	}
+
+	if (code === 'content_filter' || code === 'content_policy_violation' || /content (filter|policy|management)|safety (filter|settings)|blocked by safety/.test(text)) {
+		return new ContentFilteredError(
+			withProviderMessage('The provider\'s content filter blocked this request. Rephrase the prompt or switch to another model.'),
+			details,
+			{ cause }
+		);
+	}
+
+	if (
+		status === 401 ||
+		status === 403 ||
+		code === 'authentication_error' ||
+		code === 'permission_error' ||
+		code === 'invalid_api_key' ||
+		googleStatus === 'UNAUTHENTICATED' ||
+		googleStatus === 'PERMISSION_DENIED' ||
+		/unauthorized|invalid api key|missing api key|\b401\b/.test(text)
+	) {
+		return new AuthenticationError(
+			'Unauthorized: Please check your OpenCode API key. Run "OpenCode Zen: Set API Key" to update it.',
+			details,
+			{ cause }
+		);
+	}
+
+	if (
+		status === 404 ||
+		code === 'not_found_error' ||
+		code === 'model_not_found' ||
+		googleStatus === 'NOT_FOUND' ||
+		/\bmodel\b[^.\n]*\b(not found|does not exist)|no such model|unknown model|\b404\b/.test(text)
+	) {
+		return new ModelNotFoundError(
+			'Model not found. The requested model may not be available. Pick another model or refresh the model list.',
+			details,
+			{ cause }
+		);
+	}
+
+	if (
+		status === 408 ||
+		(status !== undefined && status >= 500) ||
+		code === 'overloaded_error' ||
+		code === 'api_error' ||
+		code === 'server_error' ||
+		googleStatus === 'UNAVAILABLE' ||
+		googleStatus === 'INTERNAL' ||
+		/overloaded|service unavailable|bad gateway|gateway timeout|no available provider|provider error|upstream/.test(text)
+	) {
+		return new ProviderOutageError(
+			withProviderMessage('The model provider is temporarily unavailable. Try again later or switch to another model.'),
+			details,
+			{ cause }
+		);
+	}
+
+	return new ZenApiError(baseMessage, details, { cause });
+}
+
+/**
+ * Maps an error to the `vscode.LanguageModelError` VS Code expects from chat providers.
+ */
+export function toLanguageModelError(err: unknown): Error {
+	if (err instanceof vscode.LanguageModelError || !(err instanceof ZenApiError)) {
+		return err instanceof Error ? err : new Error(String(err));
+	}
+
+	let mapped: vscode.LanguageModelError;
+	if (err instanceof AuthenticationError) {
+		mapped = vscode.LanguageModelError.NoPermissions(err.message);
+	} else if (err instanceof QuotaExhaustedError || err instanceof ContentFilteredError) {
+		mapped = vscode.LanguageModelError.Blocked(err.message);
+	} else if (err instanceof ModelNotFoundError) {
+		mapped = vscode.LanguageModelError.NotFound(err.message);
+	} else {
+		mapped = new vscode.LanguageModelError(err.message);
+	}
+	return Object.assign(mapped, err.details, { cause: err });
+}
+
+/**
+ * Shows a notification for errors that have follow-up actions, such as setting the API key.
+ */
+export function showErrorActions(err: unknown): void {
+	if (!(err instanceof ZenApiError) || err.actions.length === 0) {
+		return;
+	}
+
+	const labels: Record<ErrorAction, string> = {
+		setApiKey: 'Set API Key',
+		switchModel: 'Switch Model',
+		showUsageReport: 'Show Usage Report',
+		showOutput: 'Show Output',
+	};
+	const run: Record<ErrorAction, () => unknown> = {
+		setApiKey: () => vscode.commands.executeCommand('opencodeZen.setApiKey'),
+		switchModel: () => vscode.commands.executeCommand('workbench.action.chat.openModelPicker'),
+		showUsageReport: () => vscode.commands.executeCommand('opencodeZen.showUsageReport'),
+		showOutput: () => getOutputChannel().show(true),
+	};
+
+	void vscode.window
+		.showErrorMessage(`OpenCode Zen: ${err.message.split('\n')[0]}`, ...err.actions.map((action) => labels[action]))
+		.then((picked) => {
+			const action = err.actions.find((candidate) => labels[candidate] === picked);
+			if (action) {
+				void run[action]();
+			}
+		});
+}
+
+export function extractErrorDetails(err: unknown): ApiErrorDetails {
+	const record = (value: unknown): Record<string, unknown> | undefined => {
+		if (value && typeof value === 'object') {
+			return value as Record<string, unknown>;
+		}
+		return undefined;
+	};
+
+	const candidates = [record(err), record((err as { cause?: unknown })?.cause)].filter(Boolean) as Record<string, unknown>[];
+	const details: ApiErrorDetails = {};
+
+	for (const candidate of candidates) {
+		if (details.statusCode === undefined) {
+			const status = candidate.statusCode ?? candidate.status;
+			if (typeof status === 'number') {
+				details.statusCode = status;
+			}
+		}
+		if (details.statusText === undefined && typeof candidate.statusText === 'string') {
+			details.statusText = candidate.statusText;
+		}
+		if (details.url === undefined && typeof candidate.url === 'string') {
+			details.url = candidate.url;
+		}
+		if (details.requestId === undefined && typeof candidate.requestId === 'string') {
+			details.requestId = candidate.requestId;
+		}
+		if (details.responseBody === undefined && candidate.responseBody !== undefined) {
+			details.responseBody = normalizeToString(candidate.responseBody);
+		}
+		if (details.requestBody === undefined && candidate.requestBody !== undefined) {
+			details.requestBody = candidate.requestBody;
+		}
+		if (details.originalMessage === undefined && typeof candidate.message === 'string') {
+			details.originalMessage = candidate.message;
+		}
+		if (details.providerMessage === undefined && typeof candidate.providerMessage === 'string') {
+			details.providerMessage = candidate.providerMessage;
+		}
+	}
+
+	return details;
+}
+
+export function serializeError(err: unknown): unknown {
+	const seen = new Set<unknown>();
+
+	const toPlain = (value: unknown, depth: number): unknown => {
+		if (value === null || value === undefined) {
+			return value;
+		}
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			return value;
+		}
+		if (value instanceof Uint8Array) {
+			return Buffer.from(value).toString('utf-8');
+		}
+		if (typeof value !== 'object') {
+			return String(value);
+		}
+		if (seen.has(value)) {
+			return '[Circular]';
+		}
+		seen.add(value);
+		if (depth <= 0) {
+			return '[MaxDepth]';
+		}
+
+		const record = value as Record<string, unknown>;
+		const out: Record<string, unknown> = {};
+		for (const key of Object.getOwnPropertyNames(record)) {
+			out[key] = toPlain(record[key], depth - 1);
+		}
+		if ('cause' in record) {
+			out.cause = toPlain(record.cause, depth - 1);
+		}
+		return out;
+	};
+
+	return toPlain(err, 4);
+}
+
+export function safeJson(value: unknown): string {
+	try {
+		return JSON.stringify(value, null, 2);
+	} catch {
+		return String(value);
+	}
+}
+
+function normalizeToString(value: unknown): string {
+	if (typeof value === 'string') {
+		return value;
+	}
+	if (value instanceof Uint8Array) {
+		return Buffer.from(value).toString('utf-8');
+	}
+	try {
+		return JSON.stringify(value, null, 2);
+	} catch {
+		return String(value);
+	}
+}
+
+function parseErrorBody(responseBody: string | undefined): { code?: string; status?: string; message?: string } {
+	if (!responseBody) {
+		return {};
+	}
+	let parsed: any;
+	try {
+		parsed = JSON.parse(responseBody);
+	} catch {
+		return {};
+	}
+	if (Array.isArray(parsed)) {
+		// Google sometimes wraps the error object in an array.
+		parsed = parsed[0];
+	}
+	if (!parsed || typeof parsed !== 'object') {
+		return {};
+	}
+
+	const error = parsed.error && typeof parsed.error === 'object' ? parsed.error : parsed;
+	const code = [error.code, error.type, parsed.type !== 'error' ? parsed.type : undefined]
+		.find((value) => typeof value === 'string');
+	return {
+		code,
+		status: typeof error.status === 'string' ? error.status : undefined,
+		message: typeof error.message === 'string' ? error.message : typeof parsed.message === 'string' ? parsed.message : undefined,
+	};
+}
+
+function isNetworkFailure(err: unknown): boolean {
+	let current: unknown = err;
+	for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+		const record = current as Record<string, unknown>;
+		if (typeof record.code === 'string' && NETWORK_ERROR_CODES.has(record.code)) {
+			return true;
+		}
+		if (record.name === 'TypeError' && record.message === 'fetch failed') {
+			return true;
+		}
+		current = record.cause;
+	}
+	return false;
+}
@@ -1,38 +1,100 @@
 import * as vscode from 'vscode';
+import { checkApiKeyWithProgress, formatCheckResult } from './apiKeyCheck';
+import { BudgetTracker } from './budget';
+import { extractErrorDetails, safeJson, serializeError } from './errors';
 import { OpenCodeZenChatProvider, VENDOR_ID } from './provider';
 import { getOutputChannel } from './output';
-import { clearApiKey, setApiKey } from './secrets';
+import { ProfileManager, SWITCH_PROFILE_COMMAND } from './profiles';
+import { ProfileStatusBar, SHOW_SESSION_USAGE_COMMAND, UsageStatusBar } from './statusBar';
+import { UsageLedger } from './usageLedger';
+import { showUsageReport } from './usageReport';
 
 const SELF_TEST_TOOL_NAME = 'opencodeZen.selfTest.getTime';
 
 export function activate(context: vscode.ExtensionContext) {
 	const output = getOutputChannel();
-	const provider = new OpenCodeZenChatProvider(context);
+	const ledger = new UsageLedger(context);
+	const budget = new BudgetTracker(ledger);
+	const statusBar = new UsageStatusBar(ledger);
+	const profiles = new ProfileManager(context);
+	const profileStatusBar = new ProfileStatusBar(profiles);
+	const provider = new OpenCodeZenChatProvider(context, ledger, budget, profiles);
 
 	context.subscriptions.push(
 		output,
+		budget,
+		statusBar,
+		profiles,
+		profileStatusBar,
+		// The free-models-only filter depends on whether the active profile has a key.
+		profiles.onDidChangeActiveProfile(() => provider.refreshModels()),
 		vscode.commands.registerCommand('opencodeZen.setApiKey', async () => {
-			const key = await vscode.window.showInputBox({
-				prompt: 'Enter your OpenCode API key (OPENCODE_API_KEY)',
-				password: true,
-				ignoreFocusOut: true,
-			});
-			if (!key) {
+			if (await profiles.enterApiKey(profiles.activeProfile)) {
+				provider.refreshModels();
+			}
+		}),
+		vscode.commands.registerCommand('opencodeZen.checkApiKey', async () => {
+			const profile = profiles.activeProfile;
+			const credential = await profiles.resolveCredential(profile);
+			if (!credential) {
+				const choice = await vscode.window.showInformationMessage(
+					`OpenCode Zen: Profile "${profile}" has no API key; only free models are available.`,
+					'Set API Key'
+				);
+				if (choice === 'Set API Key') {
+					await vscode.commands.executeCommand('opencodeZen.setApiKey');
+				}
 				return;
 			}
-			await setApiKey(context.secrets, key);
-			vscode.window.showInformationMessage('OpenCode Zen API key saved.');
-			provider.refreshModels();
+
+			const result = await checkApiKeyWithProgress(credential.apiKey, profile);
+			const message = `OpenCode Zen (${profile}, key from ${credential.description}): ${formatCheckResult(result)}`;
+			if (result.status === 'valid') {
+				vscode.window.showInformationMessage(message);
+				return;
+			}
+			const choice = await vscode.window.showWarningMessage(message, 'Set API Key');
+			if (choice === 'Set API Key') {
+				await vscode.commands.executeCommand('opencodeZen.setApiKey');
+			}
 		}),
 		vscode.commands.registerCommand('opencodeZen.clearApiKey', async () => {
-			await clearApiKey(context.secrets);
-			vscode.window.showInformationMessage('OpenCode Zen API key cleared.');
-			provider.refreshModels();
+			const profile = profiles.activeProfile;
+			await profiles.clearProfile(profile);
+			// The default profile can still pick up a key from the environment or the opencode CLI.
+			const remaining = profiles.listProfiles().includes(profile) ? await profiles.resolveCredential(profile) : undefined;
+			vscode.window.showInformationMessage(
+				remaining
+					? `OpenCode Zen API key cleared for profile "${profile}". It still uses the key from ${remaining.description}.`
+					: `OpenCode Zen API key cleared for profile "${profile}".`
+			);
+		}),
+		vscode.commands.registerCommand(SWITCH_PROFILE_COMMAND, async () => {
+			await profiles.pickAndSwitch();
 		}),
 		vscode.commands.registerCommand('opencodeZen.refreshModels', async () => {
 			await provider.refreshModels(true);
 			vscode.window.showInformationMessage('OpenCode Zen model list refreshed.');
 		}),
+		vscode.commands.registerCommand('opencodeZen.showUsageReport', async () => {
+			await showUsageReport(ledger);
+		}),
+		vscode.commands.registerCommand(SHOW_SESSION_USAGE_COMMAND, async () => {
+			await statusBar.showDetails();
+		}),
+		vscode.commands.registerCommand('opencodeZen.overrideBudget', async () => {
+			const confirm = await vscode.window.showWarningMessage(
+				'Ignore OpenCode Zen spending caps until VS Code is restarted?',
+				{ modal: true },
+				'Override'
+			);
+			if (confirm !== 'Override') {
+				return;
+			}
+			budget.overrideForSession();
+			output.warn('Spending caps overridden for this session.');
+			vscode.window.showInformationMessage('OpenCode Zen spending caps are overridden for this session.');
+		}),
 		vscode.commands.registerCommand('opencodeZen.selfTest', async () => {
 			if (!vscode.lm?.selectChatModels) {
 				output.error('VS Code Language Model API unavailable. Update VS Code to 1.104+.');
@@ -123,16 +185,6 @@ interface SelfTestContext {
 	lastAssistantChars: number;
 }
 
-type ErrorDetails = {
-	statusCode?: number;
-	statusText?: string;
-	responseBody?: string;
-	requestId?: string;
-	url?: string;
-	requestBody?: unknown;
-	originalMessage?: string;
-};
-
 function logSelfTestFailure(output: vscode.LogOutputChannel, err: unknown, context: SelfTestContext): void {
 	output.error('Self-test failed.');
 	output.info(`Model: ${context.modelName} (${context.modelId})`);
@@ -179,107 +231,6 @@ function logSelfTestFailure(output: vscode.LogOutputChannel, err: unknown, conte
 	output.append(`\n${safeJson(serializeError(err))}\n`);
 }
 
-function extractErrorDetails(err: unknown): ErrorDetails {
-	const record = (value: unknown): Record<string, unknown> | undefined => {
-		if (value && typeof value === 'object') {
-			return value as Record<string, unknown>;
-		}
-		return undefined;
-	};
-
-	const candidates = [record(err), record((err as { cause?: unknown })?.cause)].filter(Boolean) as Record<string, unknown>[];
-	const details: ErrorDetails = {};
-
-	for (const candidate of candidates) {
-		if (details.statusCode === undefined) {
-			const status = candidate.statusCode ?? candidate.status;
-			if (typeof status === 'number') {
-				details.statusCode = status;
-			}
-		}
-		if (details.statusText === undefined && typeof candidate.statusText === 'string') {
-			details.statusText = candidate.statusText;
-		}
-		if (details.url === undefined && typeof candidate.url === 'string') {
-			details.url = candidate.url;
-		}
-		if (details.requestId === undefined && typeof candidate.requestId === 'string') {
-			details.requestId = candidate.requestId;
-		}
-		if (details.responseBody === undefined && candidate.responseBody !== undefined) {
-			details.responseBody = normalizeToString(candidate.responseBody);
-		}
-		if (details.requestBody === undefined && candidate.requestBody !== undefined) {
-			details.requestBody = candidate.requestBody;
-		}
-		if (details.originalMessage === undefined && typeof candidate.message === 'string') {
-			details.originalMessage = candidate.message;
-		}
-	}
-
-	return details;
-}
-
-function normalizeToString(value: unknown): string {
-	if (typeof value === 'string') {
-		return value;
-	}
-	if (value instanceof Uint8Array) {
-		return Buffer.from(value).toString('utf-8');
-	}
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}
-
-function safeJson(value: unknown): string {
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}
-
-function serializeError(err: unknown): unknown {
-	const seen = new Set<unknown>();
-
-	const toPlain = (value: unknown, depth: number): unknown => {
-		if (value === null || value === undefined) {
-			return value;
-		}
-		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-			return value;
-		}
-		if (value instanceof Uint8Array) {
-			return Buffer.from(value).toString('utf-8');
-		}
-		if (typeof value !== 'object') {
-			return String(value);
-		}
-		if (seen.has(value)) {
-			return '[Circular]';
-		}
-		seen.add(value);
-		if (depth <= 0) {
-			return '[MaxDepth]';
-		}
-
-		const record = value as Record<string, unknown>;
-		const out: Record<string, unknown> = {};
-		for (const key of Object.getOwnPropertyNames(record)) {
-			out[key] = toPlain(record[key], depth - 1);
-		}
-		if ('cause' in record) {
-			out.cause = toPlain(record.cause, depth - 1);
-		}
-		return out;
-	};
-
-	return toPlain(err, 4);
-}
-
 async function runToolLoop(
 	model: vscode.LanguageModelChat,
 	messages: vscode.LanguageModelChatMessage[],
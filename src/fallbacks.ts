@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+import { classifyApiError } from './errors';
+import { matchesGlob } from './glob';
+
+/**
+ * Ordered alternatives for `modelId` from `opencodeZen.fallbacks`. Keys may be model id globs;
+ * the first matching key wins and the model itself is never listed as its own fallback.
+ */
+export function getFallbackChain(modelId: string): string[] {
+	const configured = vscode.workspace.getConfiguration('opencodeZen').get<Record<string, string[]>>('fallbacks', {});
+	for (const [pattern, alternatives] of Object.entries(configured ?? {})) {
+		if (!matchesGlob(modelId, pattern) || !Array.isArray(alternatives)) {
+			continue;
+		}
+		return alternatives.filter((id) => typeof id === 'string' && id !== modelId);
+	}
+	return [];
+}
+
+/**
+ * True when another model is likely to succeed: the model is missing, overloaded, rate limited
+ * or its upstream provider failed, as `classifyApiError` decides. Authentication and request
+ * errors are not retried elsewhere.
+ */
+export function shouldFallback(err: unknown): boolean {
+	return classifyApiError(err).fallbackEligible;
+}
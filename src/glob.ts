@@ -0,0 +1,30 @@
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Case-insensitive whole-string glob match for model ids. `*` matches any run of
+ * characters (including none) and `?` matches exactly one character.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+	let regex = globCache.get(pattern);
+	if (!regex) {
+		const source = pattern
+			.split('')
+			.map((ch) => {
+				if (ch === '*') {
+					return '.*';
+				}
+				if (ch === '?') {
+					return '.';
+				}
+				return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			})
+			.join('');
+		regex = new RegExp(`^${source}$`, 'i');
+		globCache.set(pattern, regex);
+	}
+	return regex.test(value);
+}
+
+export function matchesAnyGlob(value: string, patterns: readonly string[]): boolean {
+	return patterns.some((pattern) => matchesGlob(value, pattern));
+}
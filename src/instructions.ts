@@ -0,0 +1,55 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getOutputChannel } from './output';
+
+const DEFAULT_INSTRUCTIONS_FILE = '.opencode/instructions.md';
+
+let lastLogged: string | undefined;
+
+/**
+ * Reads the workspace instruction file named by `opencodeZen.instructions.file` when
+ * `opencodeZen.instructions.enabled` is on. Relative paths resolve against the first workspace folder.
+ * Returns undefined when the feature is off or the file is missing or empty.
+ */
+export async function loadWorkspaceInstructions(): Promise<string | undefined> {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	if (!config.get<boolean>('instructions.enabled', false)) {
+		return undefined;
+	}
+
+	const uri = resolveInstructionsFile(config.get<string>('instructions.file', DEFAULT_INSTRUCTIONS_FILE));
+	if (!uri) {
+		return undefined;
+	}
+
+	let text: string;
+	try {
+		text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri)).trim();
+	} catch {
+		logOnChange(`No workspace instructions at ${uri.fsPath}.`);
+		return undefined;
+	}
+	if (!text) {
+		logOnChange(`Workspace instructions at ${uri.fsPath} are empty.`);
+		return undefined;
+	}
+	logOnChange(`Using workspace instructions from ${uri.fsPath} (${text.length} characters).`);
+	return text;
+}
+
+/** Logs once per change of outcome instead of on every request. */
+function logOnChange(message: string): void {
+	if (message !== lastLogged) {
+		lastLogged = message;
+		getOutputChannel().info(message);
+	}
+}
+
+function resolveInstructionsFile(filePath: string | undefined): vscode.Uri | undefined {
+	const trimmed = (filePath ?? DEFAULT_INSTRUCTIONS_FILE).trim() || DEFAULT_INSTRUCTIONS_FILE;
+	if (path.isAbsolute(trimmed)) {
+		return vscode.Uri.file(trimmed);
+	}
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, trimmed) : undefined;
+}
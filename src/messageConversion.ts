@@ -0,0 +1,328 @@
+import { jsonSchema } from 'ai';
+import * as vscode from 'vscode';
+import { stripReasoningBlocks } from './reasoning';
+
+/** `LanguageModelChatMessageRole.System` from the proposed system message API. */
+const SYSTEM_ROLE: number = (vscode.LanguageModelChatMessageRole as { System?: number }).System ?? 3;
+
+/**
+ * Converts VS Code chat messages to AI SDK messages. Tool results in a user message become a
+ * separate `tool` message, tool names are mapped to their provider names, and `cache_control`
+ * data parts are dropped.
+ */
+export function messagesToAiSdkMessages(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	toolNameMap: ReadonlyMap<string, string>
+): any[] {
+	// We use `any` to avoid hard-coupling to ai-sdk's evolving CoreMessage shape.
+	// But we must still satisfy AI SDK runtime validation.
+	const toolNameByCallId = new Map<string, string>();
+	for (const message of messages) {
+		for (const part of message.content) {
+			if (part instanceof vscode.LanguageModelToolCallPart) {
+				toolNameByCallId.set(part.callId, mapToolName(part.name, toolNameMap));
+			}
+		}
+	}
+
+	const out: any[] = [];
+
+	for (const message of messages) {
+		const mapped = mapVsCodeMessageToAiSdkMessages(message, toolNameByCallId, toolNameMap);
+		out.push(...mapped);
+	}
+
+	return out;
+}
+
+export function mapVsCodeMessageToAiSdkMessages(
+	message: vscode.LanguageModelChatRequestMessage,
+	toolNameByCallId: ReadonlyMap<string, string>,
+	toolNameMap: ReadonlyMap<string, string>
+): any[] {
+	if (message.role === SYSTEM_ROLE) {
+		const text = systemMessageText(message);
+		return text ? [{ role: 'system', content: text }] : [];
+	}
+
+	const isUser = message.role === vscode.LanguageModelChatMessageRole.User;
+
+	const textImageFileParts: any[] = [];
+	const toolResultParts: any[] = [];
+	const assistantParts: any[] = [];
+
+	for (const part of message.content) {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			const textPart = { type: 'text', text: part.value };
+			if (isUser) {
+				textImageFileParts.push(textPart);
+			} else {
+				assistantParts.push(textPart);
+			}
+			continue;
+		}
+
+		if (part instanceof vscode.LanguageModelToolCallPart) {
+			// Assistant-only in VS Code input, but we handle defensively.
+			assistantParts.push({
+				type: 'tool-call',
+				toolCallId: part.callId,
+				toolName: mapToolName(part.name, toolNameMap),
+				input: part.input,
+			});
+			continue;
+		}
+
+		if (part instanceof vscode.LanguageModelToolResultPart) {
+			const toolName = toolNameByCallId.get(part.callId) ?? mapToolName('unknown', toolNameMap);
+			toolResultParts.push({
+				type: 'tool-result',
+				toolCallId: part.callId,
+				toolName,
+				output: languageModelToolResultContentToOutput(part.content),
+			});
+			continue;
+		}
+
+		if (part instanceof vscode.LanguageModelDataPart) {
+			const converted = dataPartToAiSdkPart(part);
+			if (!converted) {
+				continue;
+			}
+
+			if (isUser) {
+				textImageFileParts.push(converted);
+			} else {
+				assistantParts.push(converted);
+			}
+			continue;
+		}
+
+		// Unknown VS Code part; drop to keep AI SDK validation happy.
+	}
+
+	const out: any[] = [];
+
+	if (isUser) {
+		if (textImageFileParts.length > 0) {
+			out.push({ role: 'user', content: simplifyTextOnlyContent(textImageFileParts) });
+		}
+		if (toolResultParts.length > 0) {
+			out.push({ role: 'tool', content: toolResultParts });
+		}
+	} else {
+		out.push({ role: 'assistant', content: simplifyTextOnlyContent(stripReasoningFromParts(assistantParts)) });
+	}
+
+	return out;
+}
+
+/** System messages only take text, so other parts are dropped. */
+function systemMessageText(message: vscode.LanguageModelChatRequestMessage): string {
+	const chunks: string[] = [];
+	for (const part of message.content) {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			chunks.push(part.value);
+		} else if (part instanceof vscode.LanguageModelDataPart && part.mimeType.startsWith('text/')) {
+			chunks.push(new TextDecoder('utf-8').decode(part.data));
+		}
+	}
+	return chunks.join('');
+}
+
+/**
+ * Anthropic and Gemini only accept system text ahead of the conversation (the `system` field and
+ * `systemInstruction`), so system messages are moved to the front for them, in their original
+ * order. OpenAI and OpenAI-compatible APIs take system messages anywhere and keep them in place.
+ */
+export function arrangeSystemMessages(messages: any[], providerNpm: string | undefined): any[] {
+	if (providerNpm !== '@ai-sdk/anthropic' && providerNpm !== '@ai-sdk/google') {
+		return messages;
+	}
+	const system = messages.filter((message) => message.role === 'system');
+	if (system.length === 0) {
+		return messages;
+	}
+	return [...system, ...messages.filter((message) => message.role !== 'system')];
+}
+
+/**
+ * Joins adjacent text parts (responses are streamed as many small parts) and removes inline
+ * reasoning blocks so earlier reasoning is not billed again as input.
+ */
+function stripReasoningFromParts(parts: any[]): any[] {
+	const merged: any[] = [];
+	for (const part of parts) {
+		const previous = merged[merged.length - 1];
+		if (part.type === 'text' && previous?.type === 'text') {
+			merged[merged.length - 1] = { ...previous, text: previous.text + part.text };
+			continue;
+		}
+		merged.push(part);
+	}
+
+	return merged
+		.map((part) => (part.type === 'text' ? { ...part, text: stripReasoningBlocks(part.text) } : part))
+		.filter((part) => part.type !== 'text' || part.text.trim().length > 0);
+}
+
+function simplifyTextOnlyContent(parts: any[]): any {
+	if (parts.length === 0) {
+		return '';
+	}
+	if (parts.every((p) => p?.type === 'text' && typeof p.text === 'string')) {
+		// Use string to satisfy the strictest schema path.
+		return parts.map((p) => p.text).join('');
+	}
+	return parts;
+}
+
+export function dataPartToAiSdkPart(part: vscode.LanguageModelDataPart): any | undefined {
+	// VS Code may include internal metadata such as cache_control in Agent/Plan mode.
+	if (part.mimeType === 'cache_control') {
+		return undefined;
+	}
+
+	if (part.mimeType.startsWith('text/')) {
+		return { type: 'text', text: new TextDecoder('utf-8').decode(part.data) };
+	}
+
+	if (part.mimeType.startsWith('image/')) {
+		// AI SDK accepts Buffer/Uint8Array.
+		return { type: 'image', image: Buffer.from(part.data), mimeType: part.mimeType };
+	}
+
+	// Fallback: represent as a file.
+	return { type: 'file', data: Buffer.from(part.data), mimeType: part.mimeType };
+}
+
+export function languageModelToolResultContentToOutput(
+	content: Array<vscode.LanguageModelTextPart | vscode.LanguageModelPromptTsxPart | vscode.LanguageModelDataPart | unknown>
+): { type: 'text'; value: string } | { type: 'json'; value: unknown } | { type: 'content'; value: Array<any> } {
+	const parts: Array<any> = [];
+	const textChunks: string[] = [];
+
+	for (const part of content) {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			textChunks.push(part.value);
+			parts.push({ type: 'text', text: part.value });
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelPromptTsxPart) {
+			const text = String(part.value);
+			textChunks.push(text);
+			parts.push({ type: 'text', text });
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelDataPart) {
+			if (part.mimeType === 'cache_control') {
+				continue;
+			}
+			if (part.mimeType.startsWith('text/')) {
+				const text = new TextDecoder('utf-8').decode(part.data);
+				textChunks.push(text);
+				parts.push({ type: 'text', text });
+				continue;
+			}
+			const base64 = Buffer.from(part.data).toString('base64');
+			if (part.mimeType.startsWith('image/')) {
+				parts.push({ type: 'image-data', data: base64, mediaType: part.mimeType });
+				continue;
+			}
+			parts.push({ type: 'file-data', data: base64, mediaType: part.mimeType });
+			continue;
+		}
+
+		if (part !== undefined) {
+			parts.push({ type: 'custom', value: part });
+		}
+	}
+
+	if (parts.length === 0) {
+		return { type: 'text', value: '' };
+	}
+
+	if (parts.every((p) => p.type === 'text')) {
+		return { type: 'text', value: textChunks.join('') };
+	}
+
+	return { type: 'content', value: parts };
+}
+
+export function toolsToAiSdkTools(
+	tools: readonly vscode.LanguageModelChatTool[],
+	toolNameMap: ReadonlyMap<string, string>
+): Record<string, any> {
+	const mapped: Record<string, any> = {};
+	for (const tool of tools) {
+		// AI SDK expects either a Zod schema or a JSON Schema wrapped with jsonSchema().
+		// VS Code provides plain JSON Schema objects, so we wrap them.
+		const schema = normalizeToolSchema(tool.inputSchema);
+		const name = mapToolName(tool.name, toolNameMap);
+		mapped[name] = {
+			description: tool.description,
+			inputSchema: jsonSchema(schema as any),
+			// No `execute`: VS Code invokes tools and sends results back on next turn.
+		};
+	}
+	return mapped;
+}
+
+function normalizeToolSchema(schema: unknown): unknown {
+	const fallback = { type: 'object', properties: {}, additionalProperties: true };
+	if (!schema || typeof schema !== 'object') {
+		return fallback;
+	}
+
+	const record = schema as Record<string, unknown>;
+	if (record.type === 'object') {
+		const hasProperties = typeof record.properties === 'object' && record.properties !== null;
+		return {
+			...record,
+			properties: hasProperties ? record.properties : {},
+			additionalProperties:
+				record.additionalProperties === undefined ? true : record.additionalProperties,
+		};
+	}
+
+	return record;
+}
+
+export function buildToolNameMap(
+	tools: readonly vscode.LanguageModelChatTool[] | undefined,
+	providerNpm: string | undefined
+): { toProvider: Map<string, string>; toVsCode: Map<string, string> } {
+	const toProvider = new Map<string, string>();
+	const toVsCode = new Map<string, string>();
+
+	if (!tools || tools.length === 0) {
+		return { toProvider, toVsCode };
+	}
+
+	const needsSanitize = providerNpm === '@ai-sdk/anthropic' || providerNpm === '@ai-sdk/openai' || providerNpm === '@ai-sdk/openai-compatible';
+	const used = new Set<string>();
+
+	for (const tool of tools) {
+		const baseName = needsSanitize ? sanitizeToolName(tool.name) : tool.name;
+		let name = baseName;
+		let suffix = 1;
+		while (used.has(name)) {
+			name = `${baseName}_${suffix++}`.slice(0, 128);
+		}
+		used.add(name);
+		toProvider.set(tool.name, name);
+		toVsCode.set(name, tool.name);
+	}
+
+	return { toProvider, toVsCode };
+}
+
+function sanitizeToolName(name: string): string {
+	const cleaned = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+	const trimmed = cleaned.length > 0 ? cleaned.slice(0, 128) : 'tool';
+	return trimmed;
+}
+
+function mapToolName(name: string, toolNameMap: ReadonlyMap<string, string>): string {
+	return toolNameMap.get(name) ?? name;
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { matchesGlob } from './glob';
+
+/**
+ * Per-model corrections applied on top of the model catalog. Entries are keyed by a
+ * model id glob (matched against the id VS Code sees, e.g. `minimax-m2.7-go`).
+ */
+export type ModelOverride = {
+	/** AI SDK provider package used to talk to the model. */
+	npm?: string;
+	/** Base API URL for requests to the model. */
+	api?: string;
+	headers?: Record<string, string>;
+	/** Default provider options. A `null` value removes an option set by an earlier entry. */
+	options?: Record<string, unknown>;
+	/** Provider options that only apply when the model resolves to the given npm package. */
+	providerOptions?: Record<string, Record<string, unknown>>;
+	limit?: { context?: number; output?: number };
+	capabilities?: { toolCalling?: boolean; imageInput?: boolean };
+	name?: string;
+	/** Set to false for models that reject prompt cache keys and cache_control hints. */
+	promptCaching?: boolean;
+};
+
+export type ModelOverrideEntry = { pattern: string; override: ModelOverride };
+
+/**
+ * Built-in fixes for models whose catalog metadata is wrong or incomplete. User entries from
+ * `opencodeZen.modelOverrides` are applied after these, so they can replace any of them.
+ */
+export const BUILTIN_MODEL_OVERRIDES: readonly ModelOverrideEntry[] = [
+	// models.dev says minimax models use @ai-sdk/anthropic (routes to /messages endpoint),
+	// but that endpoint returns "Missing API key" errors. The /chat/completions endpoint works.
+	{ pattern: 'minimax-m2.7-go', override: { npm: '@ai-sdk/openai-compatible' } },
+	{ pattern: 'minimax-m2.5-go', override: { npm: '@ai-sdk/openai-compatible' } },
+	// GLM 4.7 errors on prompt_cache_key / prompt_cache_retention and cache_control fields.
+	{ pattern: 'glm-4.7', override: { promptCaching: false } },
+	{ pattern: 'glm-4.7-go', override: { promptCaching: false } },
+	{ pattern: '*/glm-4.7', override: { promptCaching: false } },
+	{
+		pattern: '*k2p5*',
+		override: { providerOptions: { '@ai-sdk/anthropic': { thinking: { type: 'enabled', budgetTokens: 16_000 } } } },
+	},
+	{
+		pattern: '*kimi-k2.5*',
+		override: { providerOptions: { '@ai-sdk/anthropic': { thinking: { type: 'enabled', budgetTokens: 16_000 } } } },
+	},
+	{
+		pattern: '*gpt-5*',
+		override: { options: { reasoningEffort: 'medium', reasoningSummary: 'auto', include: ['reasoning.encrypted_content'] } },
+	},
+	{ pattern: '*gpt-5-pro*', override: { options: { reasoningEffort: null, reasoningSummary: null } } },
+	{ pattern: '*gpt-5.*', override: { options: { textVerbosity: 'low' } } },
+	{ pattern: '*gpt-5.*codex*', override: { options: { textVerbosity: null } } },
+	{ pattern: '*gpt-5.*-chat*', override: { options: { textVerbosity: null } } },
+	{
+		pattern: '*gpt-5-chat*',
+		override: { options: { reasoningEffort: null, reasoningSummary: null, textVerbosity: null, include: null } },
+	},
+];
+
+export function getModelOverrideEntries(): ModelOverrideEntry[] {
+	const configured = vscode.workspace.getConfiguration('opencodeZen').get<Record<string, unknown>>('modelOverrides', {});
+	const userEntries: ModelOverrideEntry[] = [];
+	for (const [pattern, override] of Object.entries(configured ?? {})) {
+		if (override && typeof override === 'object' && !Array.isArray(override)) {
+			userEntries.push({ pattern, override: override as ModelOverride });
+		}
+	}
+	return [...BUILTIN_MODEL_OVERRIDES, ...userEntries];
+}
+
+/**
+ * Merges every entry matching `modelId`, in order. Scalars are replaced, `headers`, `limit`
+ * and `capabilities` are merged key by key, and `options` are merged deeply.
+ */
+export function resolveModelOverride(modelId: string, entries: readonly ModelOverrideEntry[]): ModelOverride {
+	let resolved: ModelOverride = {};
+	for (const { pattern, override } of entries) {
+		if (!matchesGlob(modelId, pattern)) {
+			continue;
+		}
+
+		const providerOptions = { ...(resolved.providerOptions ?? {}) };
+		for (const [npm, options] of Object.entries(override.providerOptions ?? {})) {
+			providerOptions[npm] = mergeOverrideOptions(providerOptions[npm], options) ?? {};
+		}
+
+		resolved = {
+			...resolved,
+			...stripUndefined({
+				npm: override.npm,
+				api: override.api,
+				name: override.name,
+				promptCaching: override.promptCaching,
+			}),
+			headers: override.headers ? { ...(resolved.headers ?? {}), ...override.headers } : resolved.headers,
+			options: mergeOverrideOptions(resolved.options, override.options),
+			providerOptions: Object.keys(providerOptions).length > 0 ? providerOptions : undefined,
+			limit: override.limit ? { ...(resolved.limit ?? {}), ...override.limit } : resolved.limit,
+			capabilities: override.capabilities ? { ...(resolved.capabilities ?? {}), ...override.capabilities } : resolved.capabilities,
+		};
+	}
+	return resolved;
+}
+
+/**
+ * Deep-merges override options into `base`. A `null` value deletes the key so later entries
+ * can undo options set by earlier, broader globs.
+ */
+export function mergeOverrideOptions(
+	base: Record<string, unknown> | undefined,
+	addition: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+	if (!addition) {
+		return base;
+	}
+
+	const merged: Record<string, unknown> = { ...(base ?? {}) };
+	for (const [key, value] of Object.entries(addition)) {
+		if (value === null) {
+			delete merged[key];
+			continue;
+		}
+		const existing = merged[key];
+		if (isPlainObject(existing) && isPlainObject(value)) {
+			merged[key] = mergeOverrideOptions(existing, value);
+		} else {
+			merged[key] = value;
+		}
+	}
+	return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stripUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+	const out: Partial<T> = {};
+	for (const [key, entry] of Object.entries(value)) {
+		if (entry !== undefined) {
+			out[key as keyof T] = entry as T[keyof T];
+		}
+	}
+	return out;
+}
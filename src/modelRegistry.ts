@@ -1,4 +1,10 @@
 import * as vscode from 'vscode';
+import { createCatalogSources, FileCatalogSource, loadCatalogFromSources, type CatalogSource } from './catalogSources';
+import { matchesAnyGlob, matchesGlob } from './glob';
+import { getModelOverrideEntries, mergeOverrideOptions, resolveModelOverride, type ModelOverride } from './modelOverrides';
+import { readCatalogSnapshot, writeCatalogSnapshot, type CatalogSnapshot } from './catalogStore';
+import { resolveProviderBaseUrl } from './network';
+import { getOutputChannel } from './output';
 
 export type ModelsDevProvider = {
 	id: string;
@@ -14,6 +20,8 @@ export type ModelsDevModelProvider = {
 	npm?: string;
 };
 
+export type ModelCost = { input?: number; output?: number; cache_read?: number; cache_write?: number };
+
 export type ModelsDevModelStatus = 'active' | 'beta' | 'deprecated';
 
 export type ModelsDevModel = {
@@ -32,158 +40,282 @@ export type ModelsDevModel = {
 	last_updated?: string;
 	modalities?: { input?: string[]; output?: string[] };
 	open_weights?: boolean;
-	cost?: { input?: number; output?: number; cache_read?: number };
+	cost?: ModelCost;
 	limit?: { context?: number; output?: number };
 	status?: ModelsDevModelStatus;
 };
 
-const MODELS_DEV_URL = 'https://models.dev/api.json';
 const PROVIDER_IDS = ['opencode', 'opencode-go'] as const;
 
-const OPENCODE_GO_NPM_OVERRIDES: Record<string, string> = {
-	'minimax-m2.7': '@ai-sdk/openai-compatible',
-	'minimax-m2.5': '@ai-sdk/openai-compatible',
+export type ModelProviderInfo = {
+	npm: string;
+	api: string;
+	headers?: Record<string, string>;
+	options?: Record<string, unknown>;
+	originalModelId?: string;
+	/** False when the model must not receive prompt cache keys or cache_control hints. */
+	promptCaching?: boolean;
+	/** Catalog pricing in USD per 1M tokens. */
+	cost?: ModelCost;
+	/** False when the catalog says the model does not accept a temperature. */
+	supportsTemperature?: boolean;
 };
 
-// Note: models.dev says minimax models use @ai-sdk/anthropic (routes to /messages endpoint),
-// but that endpoint returns "Missing API key" errors. The /chat/completions endpoint works,
-// so we override to @ai-sdk/openai-compatible for these models.
+type CatalogEntry = { provider: ModelsDevProvider; model: ModelsDevModel; providerId: string; uniqueId: string };
 
 export class ModelRegistry {
 	private readonly _onDidChange = new vscode.EventEmitter<void>();
 	readonly onDidChange = this._onDidChange.event;
 
 	private cachedAtMs: number | undefined;
-	private cachedModels: vscode.LanguageModelChatInformation[] | undefined;
-	private providerDefaults: Map<string, { npm: string; api: string }> = new Map();
-	private modelProviderOverrides = new Map<string, string>();
-	private modelRequestMetadata = new Map<string, { headers?: Record<string, string>; options?: Record<string, unknown>; originalModelId?: string }>();
-	private modelProviderApi = new Map<string, string>();
+	private snapshot: CatalogSnapshot | undefined;
+	private catalogEntries: CatalogEntry[] = [];
+	private persistedSnapshotLoaded = false;
+	private revalidation: Promise<void> | undefined;
+	private staleWarningShown = false;
+	private sources: CatalogSource[] = [];
+	private sourceWatcher: vscode.Disposable | undefined;
 
-	constructor(private readonly context: vscode.ExtensionContext) {}
+	constructor(private readonly context: vscode.ExtensionContext) {
+		this.configureSources();
+		context.subscriptions.push(
+			vscode.workspace.onDidChangeConfiguration((e) => {
+				if (e.affectsConfiguration('opencodeZen.catalog')) {
+					this.configureSources();
+					this.invalidate();
+				} else if (e.affectsConfiguration('opencodeZen.modelOverrides') || e.affectsConfiguration('opencodeZen.models')) {
+					this._onDidChange.fire();
+				}
+			}),
+			{ dispose: () => this.sourceWatcher?.dispose() }
+		);
+	}
 
 	invalidate(): void {
+		// Keep the last good snapshot around so a failing refetch can still fall back to it.
 		this.cachedAtMs = undefined;
-		this.cachedModels = undefined;
-		this.providerDefaults.clear();
-		this.modelProviderOverrides.clear();
-		this.modelRequestMetadata.clear();
-		this.modelProviderApi.clear();
 		this._onDidChange.fire();
 	}
 
 	async getModels(options: { force?: boolean; hasKey?: boolean } = {}): Promise<vscode.LanguageModelChatInformation[]> {
+		const hasKey = options.hasKey ?? true;
 		const ttlMinutes = this.context.workspaceState.get<number>('opencodeZen.modelCacheTtlMinutes.override')
 			?? vscode.workspace.getConfiguration('opencodeZen').get<number>('modelCacheTtlMinutes', 60);
 
 		const ttlMs = Math.max(0, ttlMinutes) * 60_000;
 		const now = Date.now();
-		if (!options.force && this.cachedModels && this.cachedAtMs !== undefined) {
+
+		if (!options.force && !this.snapshot && !this.persistedSnapshotLoaded) {
+			this.persistedSnapshotLoaded = true;
+			const persisted = await readCatalogSnapshot(this.context);
+			if (persisted) {
+				// Serve the persisted catalog right away and refresh it without blocking the model picker.
+				this.applySnapshot(persisted);
+				this.cachedAtMs = now;
+				getOutputChannel().info(`Loaded persisted model catalog from ${new Date(persisted.fetchedAtMs).toISOString()}.`);
+				this.revalidateInBackground();
+				return this.buildModels(hasKey);
+			}
+		}
+
+		if (!options.force && this.snapshot && this.cachedAtMs !== undefined) {
 			if (ttlMs === 0 || now - this.cachedAtMs < ttlMs) {
-				return this.cachedModels;
+				return this.buildModels(hasKey);
 			}
 		}
 
-		const response = await fetch(MODELS_DEV_URL, {
-			headers: { 'accept': 'application/json' },
-		});
-		if (!response.ok) {
-			throw new Error(`Failed to fetch models from models.dev: ${response.status} ${response.statusText}`);
+		try {
+			await this.fetchAndStoreCatalog();
+		} catch (err) {
+			if (!this.snapshot) {
+				throw err;
+			}
+			// Don't retry on every lookup; wait for the next TTL window or a manual refresh.
+			this.cachedAtMs = now;
+			this.reportStaleCatalog(err);
 		}
 
-		const json = (await response.json()) as Record<string, ModelsDevProvider>;
+		return this.buildModels(hasKey);
+	}
 
-		this.providerDefaults.clear();
-		this.modelProviderOverrides.clear();
-		this.modelRequestMetadata.clear();
-		this.modelProviderApi.clear();
+	async getModelProviderInfo(modelId: string): Promise<ModelProviderInfo | undefined> {
+		if (!this.snapshot) {
+			await this.getModels();
+		}
 
-		const allModels: { provider: ModelsDevProvider; model: ModelsDevModel; providerId: string; uniqueId: string }[] = [];
+		const snapshot = this.snapshot;
+		if (!snapshot || Object.keys(snapshot.providerDefaults).length === 0) {
+			return undefined;
+		}
 
-		for (const providerId of PROVIDER_IDS) {
-			const provider = json[providerId];
-			if (!provider) {
-				continue;
-			}
+		const override = snapshot.modelProviderOverrides[modelId];
+		const metadata = snapshot.modelRequestMetadata[modelId];
+		const providerId = snapshot.modelProviderApi[modelId];
+		if (!providerId) {
+			return undefined;
+		}
+		const providerInfo = snapshot.providerDefaults[providerId];
+		const modelOverride = resolveModelOverride(modelId, getModelOverrideEntries());
+		const npm = modelOverride.npm ?? override ?? providerInfo?.npm ?? 'unknown';
+		const options = mergeOverrideOptions(
+			mergeOverrideOptions(metadata?.options, modelOverride.options),
+			modelOverride.providerOptions?.[npm]
+		);
+		const headers = modelOverride.headers ? { ...(metadata?.headers ?? {}), ...modelOverride.headers } : metadata?.headers;
+		const catalogModel = this.findCatalogModel(modelId);
 
-			this.providerDefaults.set(providerId, { npm: provider.npm, api: provider.api });
+		return {
+			npm,
+			api: modelOverride.api ?? resolveProviderBaseUrl(providerId, providerInfo?.api) ?? 'unknown',
+			headers,
+			options: options && Object.keys(options).length > 0 ? options : undefined,
+			originalModelId: metadata?.originalModelId,
+			promptCaching: modelOverride.promptCaching,
+			cost: catalogModel?.cost,
+			supportsTemperature: catalogModel?.temperature,
+		};
+	}
 
-			for (const model of Object.values(provider.models)) {
-				const uniqueId = providerId === 'opencode-go' ? `${model.id}-go` : model.id;
-				if (this.modelProviderApi.get(uniqueId) === undefined) {
-					this.modelProviderApi.set(uniqueId, providerId);
-					allModels.push({ provider, model, providerId, uniqueId });
-
-					const npmOverride = providerId === 'opencode-go' ? OPENCODE_GO_NPM_OVERRIDES[model.id] : undefined;
-					if (npmOverride) {
-						this.modelProviderOverrides.set(uniqueId, npmOverride);
-					} else if (model.provider?.npm) {
-						this.modelProviderOverrides.set(uniqueId, model.provider.npm);
-					}
-				}
+	private findCatalogModel(modelId: string): ModelsDevModel | undefined {
+		return this.catalogEntries.find((entry) => entry.uniqueId === modelId)?.model;
+	}
 
-				this.modelRequestMetadata.set(uniqueId, {
-					headers: model.headers,
-					options: model.options,
-					originalModelId: model.id,
-				});
-			}
+	private revalidateInBackground(): void {
+		if (this.revalidation) {
+			return;
 		}
+		this.revalidation = this.fetchAndStoreCatalog()
+			.then(() => this._onDidChange.fire())
+			.catch((err) => this.reportStaleCatalog(err))
+			.finally(() => {
+				this.revalidation = undefined;
+			});
+	}
+
+	private configureSources(): void {
+		this.sourceWatcher?.dispose();
+		this.sourceWatcher = undefined;
+		this.sources = createCatalogSources(this.context);
 
-		if (this.providerDefaults.size === 0) {
-			throw new Error(`No valid providers (${PROVIDER_IDS.join(', ')}) found in models.dev`);
+		const fileSource = this.sources.find((source): source is FileCatalogSource => source instanceof FileCatalogSource);
+		if (fileSource) {
+			this.sourceWatcher = fileSource.watch(() => {
+				getOutputChannel().info(`Model catalog file changed: ${fileSource.description}`);
+				this.invalidate();
+			});
 		}
+	}
 
-		const isActiveModel = (model: ModelsDevModel) => model.status === undefined || model.status !== 'deprecated';
-		const hasKey = options.hasKey ?? true;
-		const models = allModels
-			.filter(({ model }) => isActiveModel(model))
-			.filter(({ model }) => hasKey || model.cost?.input === 0)
-			.sort((a, b) => a.model.name.localeCompare(b.model.name))
-			.map(({ provider, model, providerId, uniqueId }) => this.toChatInfo(provider, model, providerId, uniqueId));
+	private async fetchAndStoreCatalog(): Promise<void> {
+		const output = getOutputChannel();
+		const { json, source, failures } = await loadCatalogFromSources(this.sources);
+		for (const failure of failures) {
+			output.warn(`Model catalog source failed: ${failure}`);
+		}
 
-		this.cachedModels = models;
-		this.cachedAtMs = now;
-		return models;
-	}
+		// The bundled snapshot is a last resort; never let it replace a catalog from a live source.
+		if (source.kind === 'bundled' && this.snapshot && !this.snapshot.source?.startsWith('bundled')) {
+			throw new Error(failures.join('; ') || 'Only the bundled catalog snapshot is available.');
+		}
 
-	async getModelProviderInfo(modelId: string): Promise<{ npm: string; api: string; headers?: Record<string, string>; options?: Record<string, unknown>; originalModelId?: string } | undefined> {
-		if (!this.cachedModels) {
-			await this.getModels();
+		const snapshot = buildCatalogSnapshot(json, Date.now(), `${source.kind}: ${source.description}`);
+		output.info(`Model catalog loaded from ${source.kind} source (${source.description}).`);
+
+		this.applySnapshot(snapshot);
+		this.cachedAtMs = snapshot.fetchedAtMs;
+		this.staleWarningShown = false;
+
+		try {
+			await writeCatalogSnapshot(this.context, snapshot);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			getOutputChannel().warn(`Failed to persist model catalog: ${message}`);
 		}
+	}
 
-		if (this.providerDefaults.size === 0) {
-			return undefined;
+	private applySnapshot(snapshot: CatalogSnapshot): void {
+		this.snapshot = snapshot;
+		this.catalogEntries = [];
+
+		const seen = new Set<string>();
+		for (const providerId of PROVIDER_IDS) {
+			const provider = snapshot.providers[providerId];
+			if (!provider) {
+				continue;
+			}
+			for (const model of Object.values(provider.models)) {
+				const uniqueId = toUniqueModelId(providerId, model.id);
+				if (seen.has(uniqueId) || snapshot.modelProviderApi[uniqueId] !== providerId) {
+					continue;
+				}
+				seen.add(uniqueId);
+				this.catalogEntries.push({ provider, model, providerId, uniqueId });
+			}
 		}
+	}
 
-		const override = this.modelProviderOverrides.get(modelId);
-		const metadata = this.modelRequestMetadata.get(modelId);
-		const providerId = this.modelProviderApi.get(modelId);
-		if (!providerId) {
-			return undefined;
+	private reportStaleCatalog(err: unknown): void {
+		const message = err instanceof Error ? err.message : String(err);
+		const output = getOutputChannel();
+		output.warn(`Model catalog refresh failed: ${message}`);
+		if (!this.snapshot || this.staleWarningShown) {
+			return;
 		}
-		const providerInfo = this.providerDefaults.get(providerId);
 
-		return {
-			npm: override ?? providerInfo?.npm ?? 'unknown',
-			api: providerInfo?.api ?? 'unknown',
-			headers: metadata?.headers,
-			options: metadata?.options,
-			originalModelId: metadata?.originalModelId,
+		this.staleWarningShown = true;
+		const fetchedAt = new Date(this.snapshot.fetchedAtMs).toLocaleString();
+		output.warn(`Using stale model catalog from ${fetchedAt}.`);
+		void vscode.window.showWarningMessage(
+			`OpenCode Zen: Could not refresh the model list. Using the stale catalog from ${fetchedAt}.`
+		);
+	}
+
+	private buildModels(hasKey: boolean): vscode.LanguageModelChatInformation[] {
+		const visibility = getModelVisibilityConfig();
+		const isVisibleModel = ({ model, uniqueId }: CatalogEntry) => {
+			if (model.status === 'deprecated' && !matchesAnyGlob(uniqueId, visibility.includeDeprecated)) {
+				return false;
+			}
+			if (visibility.include.length > 0 && !matchesAnyGlob(uniqueId, visibility.include)) {
+				return false;
+			}
+			return !matchesAnyGlob(uniqueId, visibility.exclude);
+		};
+		// Pinned models come first, in the order of the first pattern they match.
+		const pinRank = (id: string) => {
+			const index = visibility.pinned.findIndex((pattern) => matchesGlob(id, pattern));
+			return index === -1 ? Number.MAX_SAFE_INTEGER : index;
 		};
+
+		const overrideEntries = getModelOverrideEntries();
+		return this.catalogEntries
+			.filter(isVisibleModel)
+			.filter(({ model }) => hasKey || model.cost?.input === 0)
+			.map(({ provider, model, providerId, uniqueId }) =>
+				this.toChatInfo(provider, model, providerId, uniqueId, resolveModelOverride(uniqueId, overrideEntries))
+			)
+			.sort((a, b) => pinRank(a.id) - pinRank(b.id) || a.name.localeCompare(b.name));
 	}
 
-	private toChatInfo(provider: ModelsDevProvider, model: ModelsDevModel, providerId: string, uniqueId: string): vscode.LanguageModelChatInformation {
-		const maxInputTokens = model.limit?.context ?? 32_768;
-		const maxOutputTokens = model.limit?.output ?? 8_192;
+	private toChatInfo(
+		provider: ModelsDevProvider,
+		model: ModelsDevModel,
+		providerId: string,
+		uniqueId: string,
+		override: ModelOverride
+	): vscode.LanguageModelChatInformation {
+		const maxInputTokens = override.limit?.context ?? model.limit?.context ?? 32_768;
+		const maxOutputTokens = override.limit?.output ?? model.limit?.output ?? 8_192;
 		const costIn = model.cost?.input;
 		const costOut = model.cost?.output;
 		const isGo = providerId === 'opencode-go';
-		const modelName = isGo ? `${model.name} (Go)` : model.name;
+		const modelName = override.name ?? (isGo ? `${model.name} (Go)` : model.name);
+		const toolCalling = override.capabilities?.toolCalling ?? model.tool_call;
 		const tooltipBits: string[] = [
 			provider.name + (isGo ? ' (Go)' : ''),
+			model.status === 'deprecated' ? 'Deprecated' : undefined,
 			model.reasoning ? 'Reasoning' : undefined,
-			model.tool_call ? 'Tool calling' : undefined,
+			toolCalling ? 'Tool calling' : undefined,
 			costIn !== undefined && costOut !== undefined ? `Cost (per 1M tokens): in $${costIn}, out $${costOut}` : undefined,
 		].filter((x): x is string => Boolean(x));
 
@@ -196,10 +328,77 @@ export class ModelRegistry {
 			maxInputTokens,
 			maxOutputTokens,
 			capabilities: {
-				toolCalling: model.tool_call,
+				toolCalling,
 				// models.dev uses 'attachment'. We conservatively expose it as imageInput.
-				imageInput: model.attachment,
+				imageInput: override.capabilities?.imageInput ?? model.attachment,
 			},
 		};
 	}
 }
+
+type ModelVisibilityConfig = {
+	include: string[];
+	exclude: string[];
+	includeDeprecated: string[];
+	pinned: string[];
+};
+
+function getModelVisibilityConfig(): ModelVisibilityConfig {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	return {
+		include: config.get<string[]>('models.include', []),
+		exclude: config.get<string[]>('models.exclude', []),
+		includeDeprecated: config.get<string[]>('models.includeDeprecated', []),
+		pinned: config.get<string[]>('models.pinned', []),
+	};
+}
+
+function toUniqueModelId(providerId: string, modelId: string): string {
+	return providerId === 'opencode-go' ? `${modelId}-go` : modelId;
+}
+
+function buildCatalogSnapshot(json: Record<string, ModelsDevProvider>, fetchedAtMs: number, source: string): CatalogSnapshot {
+	const snapshot: CatalogSnapshot = {
+		version: 1,
+		fetchedAtMs,
+		source,
+		providers: {},
+		providerDefaults: {},
+		modelProviderOverrides: {},
+		modelRequestMetadata: {},
+		modelProviderApi: {},
+	};
+
+	for (const providerId of PROVIDER_IDS) {
+		const provider = json[providerId];
+		if (!provider) {
+			continue;
+		}
+
+		snapshot.providers[providerId] = provider;
+		snapshot.providerDefaults[providerId] = { npm: provider.npm, api: provider.api };
+
+		for (const model of Object.values(provider.models)) {
+			const uniqueId = toUniqueModelId(providerId, model.id);
+			if (snapshot.modelProviderApi[uniqueId] === undefined) {
+				snapshot.modelProviderApi[uniqueId] = providerId;
+
+				if (model.provider?.npm) {
+					snapshot.modelProviderOverrides[uniqueId] = model.provider.npm;
+				}
+			}
+
+			snapshot.modelRequestMetadata[uniqueId] = {
+				headers: model.headers,
+				options: model.options,
+				originalModelId: model.id,
+			};
+		}
+	}
+
+	if (Object.keys(snapshot.providerDefaults).length === 0) {
+		throw new Error(`No valid providers (${PROVIDER_IDS.join(', ')}) found in model catalog`);
+	}
+
+	return snapshot;
+}
@@ -0,0 +1,297 @@
+import { readFile } from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { Readable } from 'stream';
+import * as tls from 'tls';
+import * as vscode from 'vscode';
+import * as zlib from 'zlib';
+import { getOutputChannel } from './output';
+
+export const ZEN_BASE_URL = 'https://opencode.ai/zen/v1';
+
+type NetworkSettings = {
+	proxy: URL | undefined;
+	proxyAuthorization: string | undefined;
+	noProxy: string[];
+	strictSSL: boolean;
+	caFile: string | undefined;
+};
+
+const loggedProblems = new Set<string>();
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'x-api-key', 'x-goog-api-key', 'cookie', 'set-cookie'];
+
+/**
+ * Base URL for OpenCode Zen: `opencodeZen.network.baseUrl`, or the public endpoint. It also
+ * replaces the catalog's URL for the `opencode` provider.
+ */
+export function getZenBaseUrl(): string {
+	const configured = vscode.workspace.getConfiguration('opencodeZen').get<string>('network.baseUrl', '').trim();
+	return (configured || ZEN_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Resolves the API URL of a catalog provider: `opencodeZen.network.providerBaseUrls[providerId]`,
+ * then `opencodeZen.network.baseUrl` for the `opencode` provider, then the catalog's `api`.
+ */
+export function resolveProviderBaseUrl(providerId: string, catalogApi: string | undefined): string | undefined {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const perProvider = config.get<Record<string, string>>('network.providerBaseUrls', {})?.[providerId];
+	if (typeof perProvider === 'string' && perProvider.trim()) {
+		return perProvider.trim().replace(/\/+$/, '');
+	}
+	const baseUrl = config.get<string>('network.baseUrl', '').trim();
+	if (providerId === 'opencode' && baseUrl) {
+		return baseUrl.replace(/\/+$/, '');
+	}
+	return catalogApi;
+}
+
+/**
+ * Returns the `fetch` to use for catalog and chat requests. It honours VS Code's `http.proxy`,
+ * `http.proxyStrictSSL`, `http.proxyAuthorization` and `http.noProxy` settings (falling back to
+ * the `HTTPS_PROXY`/`HTTP_PROXY`/`NO_PROXY` environment variables) and adds the CA bundle from
+ * `opencodeZen.network.caFile` to the trusted roots. Without any of these the global `fetch` is used.
+ */
+export function getNetworkFetch(): typeof fetch {
+	const settings = getNetworkSettings();
+	if (!settings.proxy && settings.strictSSL && !settings.caFile) {
+		return globalThis.fetch;
+	}
+	return (input, init) => nodeFetch(new Request(input, init), settings);
+}
+
+/** Copies headers for logs and cassettes, replacing credentials and cookies with `[REDACTED]`. */
+export function redactHeaders(headers: Headers): Record<string, string> {
+	const out: Record<string, string> = {};
+	for (const [key, value] of headers.entries()) {
+		out[key] = SECRET_HEADERS.includes(key.toLowerCase()) ? '[REDACTED]' : value;
+	}
+	return out;
+}
+
+function getNetworkSettings(): NetworkSettings {
+	const httpConfig = vscode.workspace.getConfiguration('http');
+	const proxySetting =
+		httpConfig.get<string>('proxy', '').trim() ||
+		process.env.HTTPS_PROXY ||
+		process.env.https_proxy ||
+		process.env.HTTP_PROXY ||
+		process.env.http_proxy ||
+		'';
+	const noProxy = [
+		...httpConfig.get<string[]>('noProxy', []),
+		...(process.env.NO_PROXY ?? process.env.no_proxy ?? '').split(','),
+	].map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+	const caFile = vscode.workspace.getConfiguration('opencodeZen').get<string>('network.caFile', '').trim();
+
+	return {
+		proxy: parseProxyUrl(proxySetting.trim()),
+		proxyAuthorization: httpConfig.get<string | null>('proxyAuthorization', null) ?? undefined,
+		noProxy,
+		strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+		caFile: caFile || undefined,
+	};
+}
+
+function parseProxyUrl(value: string): URL | undefined {
+	if (!value) {
+		return undefined;
+	}
+	try {
+		const url = new URL(value.includes('://') ? value : `http://${value}`);
+		if (url.protocol === 'http:' || url.protocol === 'https:') {
+			return url;
+		}
+		logOnce(`Unsupported proxy protocol "${url.protocol}"; only http and https proxies are supported. Connecting directly.`);
+	} catch {
+		logOnce('Could not parse the configured proxy URL; connecting directly.');
+	}
+	return undefined;
+}
+
+/** Matches `NO_PROXY`-style entries: `*`, `host`, `.domain`, `*.domain` and `host:port`. */
+function bypassesProxy(url: URL, noProxy: readonly string[]): boolean {
+	const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+	const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+	return noProxy.some((entry) => {
+		if (entry === '*') {
+			return true;
+		}
+		let pattern = entry.replace(/^\*?\.?/, '');
+		const portMatch = /^(.*):(\d+)$/.exec(pattern);
+		if (portMatch && !net.isIPv6(pattern)) {
+			if (portMatch[2] !== port) {
+				return false;
+			}
+			pattern = portMatch[1];
+		}
+		return host === pattern || host.endsWith(`.${pattern}`);
+	});
+}
+
+async function loadCertificateAuthorities(caFile: string | undefined): Promise<string[] | undefined> {
+	if (!caFile) {
+		return undefined;
+	}
+	try {
+		return [...tls.rootCertificates, await readFile(caFile, 'utf-8')];
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		logOnce(`Could not read the CA bundle ${caFile}: ${message}`);
+		return undefined;
+	}
+}
+
+/**
+ * Minimal `fetch` on top of Node's http/https modules, so requests can be tunnelled through a proxy
+ * and trust extra certificate authorities. Response bodies are streamed and decompressed.
+ */
+async function nodeFetch(request: Request, settings: NetworkSettings): Promise<Response> {
+	const url = new URL(request.url);
+	const isHttps = url.protocol === 'https:';
+	const proxy = settings.proxy && !bypassesProxy(url, settings.noProxy) ? settings.proxy : undefined;
+	const ca = await loadCertificateAuthorities(settings.caFile);
+	const body = request.body ? Buffer.from(await request.arrayBuffer()) : undefined;
+
+	const headers: Record<string, string> = {};
+	request.headers.forEach((value, key) => {
+		headers[key] = value;
+	});
+	headers['accept-encoding'] ??= 'gzip, deflate, br';
+	if (body) {
+		headers['content-length'] = String(body.length);
+	}
+
+	const tlsOptions: tls.ConnectionOptions = { ca, rejectUnauthorized: settings.strictSSL, servername: url.hostname };
+	const options: https.RequestOptions = { method: request.method, headers, signal: request.signal };
+
+	if (proxy && isHttps) {
+		const socket = await openTunnel(proxy, url, settings, ca, request.signal);
+		options.createConnection = () => tls.connect({ ...tlsOptions, socket });
+	} else if (proxy) {
+		// Plain HTTP goes to the proxy with the absolute URL as the request target.
+		Object.assign(options, { hostname: proxy.hostname, port: proxy.port, path: url.href });
+		if (proxy.protocol === 'https:') {
+			Object.assign(options, { ...tlsOptions, servername: proxy.hostname });
+		}
+		const authorization = getProxyAuthorization(proxy, settings);
+		if (authorization) {
+			headers['proxy-authorization'] = authorization;
+		}
+	} else if (isHttps) {
+		Object.assign(options, tlsOptions);
+	}
+
+	const transport = (proxy && !isHttps ? proxy.protocol : url.protocol) === 'https:' ? https : http;
+	return new Promise<Response>((resolve, reject) => {
+		const onResponse = (res: http.IncomingMessage) => resolve(toResponse(res, url));
+		const req = proxy && !isHttps ? transport.request(options, onResponse) : transport.request(url, options, onResponse);
+		req.on('error', (err) => reject(toFetchError(err)));
+		req.end(body);
+	});
+}
+
+function openTunnel(
+	proxy: URL,
+	target: URL,
+	settings: NetworkSettings,
+	ca: string[] | undefined,
+	signal: AbortSignal
+): Promise<net.Socket> {
+	const authority = `${target.hostname}:${target.port || 443}`;
+	const headers: Record<string, string> = { host: authority };
+	const authorization = getProxyAuthorization(proxy, settings);
+	if (authorization) {
+		headers['proxy-authorization'] = authorization;
+	}
+
+	return new Promise((resolve, reject) => {
+		const transport = proxy.protocol === 'https:' ? https : http;
+		const req = transport.request({
+			method: 'CONNECT',
+			hostname: proxy.hostname,
+			port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+			path: authority,
+			headers,
+			signal,
+			ca,
+			rejectUnauthorized: settings.strictSSL,
+		});
+		req.on('connect', (res, socket) => {
+			if (res.statusCode === 200) {
+				resolve(socket);
+				return;
+			}
+			socket.destroy();
+			reject(toFetchError(new Error(`Proxy ${proxy.host} refused the tunnel to ${authority}: ${res.statusCode} ${res.statusMessage ?? ''}`.trim())));
+		});
+		req.on('error', (err) => reject(toFetchError(err)));
+		req.end();
+	});
+}
+
+function getProxyAuthorization(proxy: URL, settings: NetworkSettings): string | undefined {
+	if (settings.proxyAuthorization) {
+		return settings.proxyAuthorization;
+	}
+	if (!proxy.username) {
+		return undefined;
+	}
+	const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+	return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+function toResponse(res: http.IncomingMessage, url: URL): Response {
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(res.headers)) {
+		if (Array.isArray(value)) {
+			value.forEach((item) => headers.append(name, item));
+		} else if (value !== undefined) {
+			headers.set(name, value);
+		}
+	}
+
+	const status = res.statusCode ?? 0;
+	let stream: Readable = res;
+	const encoding = res.headers['content-encoding']?.toLowerCase();
+	if (encoding === 'gzip' || encoding === 'x-gzip') {
+		stream = res.pipe(zlib.createGunzip());
+	} else if (encoding === 'deflate') {
+		stream = res.pipe(zlib.createInflate());
+	} else if (encoding === 'br') {
+		stream = res.pipe(zlib.createBrotliDecompress());
+	}
+	if (stream !== res) {
+		res.on('error', (err) => stream.destroy(err));
+		headers.delete('content-encoding');
+		headers.delete('content-length');
+	}
+
+	const hasBody = status !== 204 && status !== 304;
+	if (!hasBody) {
+		res.resume();
+	}
+	const response = new Response(hasBody ? (Readable.toWeb(stream) as ReadableStream<Uint8Array>) : null, {
+		status,
+		statusText: res.statusMessage,
+		headers,
+	});
+	Object.defineProperty(response, 'url', { value: url.href });
+	return response;
+}
+
+/** Mirrors undici's error shape (`TypeError: fetch failed` with the socket error as cause) for error classification. */
+function toFetchError(err: Error): Error {
+	if (err.name === 'AbortError') {
+		return err;
+	}
+	return new TypeError('fetch failed', { cause: err });
+}
+
+function logOnce(message: string): void {
+	if (!loggedProblems.has(message)) {
+		loggedProblems.add(message);
+		getOutputChannel().warn(message);
+	}
+}
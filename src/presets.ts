@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { matchesGlob } from './glob';
+import { getOutputChannel } from './output';
+
+export type GenerationPreset = {
+	temperature?: number;
+	topP?: number;
+	topK?: number;
+	/** A token count, or `max` for the model's advertised output limit. */
+	maxOutputTokens?: number | 'max';
+	stopSequences?: string[];
+	seed?: number;
+};
+
+/** Sampling settings passed to `streamText`. */
+export type GenerationSettings = {
+	temperature?: number;
+	topP?: number;
+	topK?: number;
+	maxOutputTokens?: number;
+	stopSequences?: string[];
+	seed?: number;
+};
+
+/**
+ * Presets available without configuration. Entries in `opencodeZen.generation.presets` with the
+ * same name replace them.
+ */
+export const BUILTIN_PRESETS: Readonly<Record<string, GenerationPreset>> = {
+	precise: { temperature: 0.2, topP: 0.9 },
+	balanced: { temperature: 0.7 },
+	creative: { temperature: 1, topP: 0.95 },
+	'long-output': { maxOutputTokens: 'max' },
+};
+
+const warnedPresets = new Set<string>();
+
+/**
+ * Picks the preset for a request: `modelOptions.preset`, then the first matching
+ * `opencodeZen.generation.modelPresets` glob, then `opencodeZen.generation.defaultPreset`.
+ */
+export function resolvePresetName(modelId: string, requested?: unknown): string | undefined {
+	if (typeof requested === 'string' && requested.trim()) {
+		return requested.trim();
+	}
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	const modelPresets = config.get<Record<string, string>>('generation.modelPresets', {});
+	for (const [pattern, preset] of Object.entries(modelPresets ?? {})) {
+		if (typeof preset === 'string' && matchesGlob(modelId, pattern)) {
+			return preset;
+		}
+	}
+	const fallback = config.get<string>('generation.defaultPreset', '').trim();
+	return fallback || undefined;
+}
+
+/**
+ * Resolves a preset to sampling settings for `model`. `maxOutputTokens` is capped at the model's
+ * output limit, and temperature is left out for models whose catalog entry says they reject it.
+ */
+export function getGenerationSettings(
+	model: Pick<vscode.LanguageModelChatInformation, 'id' | 'maxOutputTokens'>,
+	presetName: string | undefined,
+	supportsTemperature: boolean | undefined
+): GenerationSettings | undefined {
+	if (!presetName) {
+		return undefined;
+	}
+	const configured = vscode.workspace.getConfiguration('opencodeZen').get<Record<string, GenerationPreset>>('generation.presets', {});
+	const preset = configured?.[presetName] ?? BUILTIN_PRESETS[presetName];
+	if (!preset || typeof preset !== 'object') {
+		if (!warnedPresets.has(presetName)) {
+			warnedPresets.add(presetName);
+			getOutputChannel().warn(`Unknown generation preset "${presetName}"; using the model defaults.`);
+		}
+		return undefined;
+	}
+
+	const settings: GenerationSettings = {};
+	if (typeof preset.temperature === 'number') {
+		if (supportsTemperature === false) {
+			getOutputChannel().debug(`Preset "${presetName}": ${model.id} does not support temperature; not sending it.`);
+		} else {
+			settings.temperature = preset.temperature;
+		}
+	}
+	if (typeof preset.topP === 'number') {
+		settings.topP = preset.topP;
+	}
+	if (typeof preset.topK === 'number') {
+		settings.topK = Math.floor(preset.topK);
+	}
+	if (preset.maxOutputTokens === 'max') {
+		settings.maxOutputTokens = model.maxOutputTokens;
+	} else if (typeof preset.maxOutputTokens === 'number' && preset.maxOutputTokens > 0) {
+		settings.maxOutputTokens = Math.min(Math.floor(preset.maxOutputTokens), model.maxOutputTokens);
+	}
+	if (Array.isArray(preset.stopSequences)) {
+		const stopSequences = preset.stopSequences.filter((value) => typeof value === 'string' && value.length > 0);
+		if (stopSequences.length > 0) {
+			settings.stopSequences = stopSequences;
+		}
+	}
+	if (typeof preset.seed === 'number') {
+		settings.seed = Math.floor(preset.seed);
+	}
+	return settings;
+}
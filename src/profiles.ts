@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { checkApiKeyWithProgress, formatCheckResult } from './apiKeyCheck';
+import { resolveCredential, type ResolvedCredential } from './credentials';
+import { getOutputChannel } from './output';
+import { clearApiKey, DEFAULT_PROFILE, setApiKey } from './secrets';
+
+export const SWITCH_PROFILE_COMMAND = 'opencodeZen.switchProfile';
+
+const PROFILES_STATE_KEY = 'opencodeZen.profiles';
+const ACTIVE_PROFILE_STATE_KEY = 'opencodeZen.activeProfile';
+
+/**
+ * Named API key profiles (e.g. personal, company, OpenCode Go). Keys live in `SecretStorage`;
+ * profile names are kept in global state because secrets cannot be enumerated.
+ *
+ * The active profile is the one picked with "Switch Profile" in this workspace, otherwise
+ * `opencodeZen.defaultProfile`, otherwise `default`. A profile without a stored key falls back to
+ * the other credential sources (see `credentials.ts`).
+ */
+export class ProfileManager implements vscode.Disposable {
+	private readonly _onDidChangeActiveProfile = new vscode.EventEmitter<string>();
+	readonly onDidChangeActiveProfile = this._onDidChangeActiveProfile.event;
+
+	private readonly configListener: vscode.Disposable;
+
+	constructor(private readonly context: vscode.ExtensionContext) {
+		this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration('opencodeZen.defaultProfile') || event.affectsConfiguration('opencodeZen.credentials')) {
+				this._onDidChangeActiveProfile.fire(this.activeProfile);
+			}
+		});
+	}
+
+	dispose(): void {
+		this.configListener.dispose();
+		this._onDidChangeActiveProfile.dispose();
+	}
+
+	get activeProfile(): string {
+		const selected = this.context.workspaceState.get<string>(ACTIVE_PROFILE_STATE_KEY);
+		if (selected && this.listProfiles().includes(selected)) {
+			return selected;
+		}
+		const configured = vscode.workspace.getConfiguration('opencodeZen').get<string>('defaultProfile', '').trim();
+		if (configured && this.listProfiles().includes(configured)) {
+			return configured;
+		}
+		return DEFAULT_PROFILE;
+	}
+
+	listProfiles(): string[] {
+		const stored = this.context.globalState.get<string[]>(PROFILES_STATE_KEY, []);
+		return [DEFAULT_PROFILE, ...stored.filter((name) => name !== DEFAULT_PROFILE)];
+	}
+
+	resolveCredential(profile = this.activeProfile): Promise<ResolvedCredential | undefined> {
+		return resolveCredential(this.context.secrets, profile);
+	}
+
+	async getApiKey(profile = this.activeProfile): Promise<string | undefined> {
+		return (await this.resolveCredential(profile))?.apiKey;
+	}
+
+	async setApiKey(profile: string, apiKey: string): Promise<void> {
+		await setApiKey(this.context.secrets, apiKey, profile);
+		if (!this.listProfiles().includes(profile)) {
+			await this.context.globalState.update(PROFILES_STATE_KEY, [...this.listProfiles().slice(1), profile]);
+		}
+	}
+
+	/**
+	 * Prompts for a key, checks it against OpenCode Zen and stores it for `profile`. A rejected
+	 * key is only stored if the user insists. Returns false when cancelled.
+	 */
+	async enterApiKey(profile: string): Promise<boolean> {
+		for (;;) {
+			const apiKey = (await promptApiKey(profile))?.trim();
+			if (!apiKey) {
+				return false;
+			}
+
+			const result = await checkApiKeyWithProgress(apiKey, profile);
+			if (result.status === 'invalid') {
+				const choice = await vscode.window.showWarningMessage(`OpenCode Zen: ${formatCheckResult(result)}`, 'Re-enter', 'Save Anyway');
+				if (choice === 'Re-enter') {
+					continue;
+				}
+				if (choice !== 'Save Anyway') {
+					return false;
+				}
+			}
+
+			await this.setApiKey(profile, apiKey);
+			const saved = `API key saved for profile "${profile}".`;
+			if (result.status === 'valid') {
+				vscode.window.showInformationMessage(`OpenCode Zen: ${saved} ${formatCheckResult(result)}`);
+			} else {
+				vscode.window.showWarningMessage(`OpenCode Zen: ${saved} ${formatCheckResult(result)}`);
+			}
+			return true;
+		}
+	}
+
+	/**
+	 * Clears the key of `profile`. Named profiles are removed entirely; the default profile stays
+	 * and falls back to free models.
+	 */
+	async clearProfile(profile: string): Promise<void> {
+		const wasActive = profile === this.activeProfile;
+		await clearApiKey(this.context.secrets, profile);
+		if (profile !== DEFAULT_PROFILE) {
+			await this.context.globalState.update(
+				PROFILES_STATE_KEY,
+				this.listProfiles().filter((name) => name !== DEFAULT_PROFILE && name !== profile)
+			);
+		}
+		if (wasActive) {
+			this._onDidChangeActiveProfile.fire(this.activeProfile);
+		}
+	}
+
+	async switchTo(profile: string): Promise<void> {
+		if (profile === this.activeProfile) {
+			return;
+		}
+		await this.context.workspaceState.update(ACTIVE_PROFILE_STATE_KEY, profile);
+		getOutputChannel().info(`Switched to API key profile "${profile}".`);
+		this._onDidChangeActiveProfile.fire(profile);
+	}
+
+	/** Quick pick for the "Switch Profile" command, including creating a new profile. */
+	async pickAndSwitch(): Promise<void> {
+		type Item = vscode.QuickPickItem & { profile?: string };
+		const active = this.activeProfile;
+		const items: Item[] = [];
+		for (const profile of this.listProfiles()) {
+			const credential = await this.resolveCredential(profile);
+			items.push({
+				label: `${profile === active ? '$(check) ' : ''}${profile}`,
+				description: !credential
+					? 'no API key (free models only)'
+					: credential.source === 'secretStorage'
+						? undefined
+						: `key from ${credential.description}`,
+				profile,
+			});
+		}
+		items.push({ label: '', kind: vscode.QuickPickItemKind.Separator }, { label: '$(add) New Profile...' });
+
+		const picked = await vscode.window.showQuickPick(items, { title: `OpenCode Zen API key profile (active: ${active})` });
+		if (!picked) {
+			return;
+		}
+		if (picked.profile) {
+			await this.switchTo(picked.profile);
+			return;
+		}
+
+		const name = await promptProfileName(this.listProfiles());
+		if (!name) {
+			return;
+		}
+		if (await this.enterApiKey(name)) {
+			await this.switchTo(name);
+		}
+	}
+}
+
+async function promptApiKey(profile: string): Promise<string | undefined> {
+	return vscode.window.showInputBox({
+		prompt:
+			profile === DEFAULT_PROFILE
+				? 'Enter your OpenCode API key (OPENCODE_API_KEY)'
+				: `Enter the OpenCode API key for profile "${profile}"`,
+		password: true,
+		ignoreFocusOut: true,
+	});
+}
+
+async function promptProfileName(existing: readonly string[]): Promise<string | undefined> {
+	const name = await vscode.window.showInputBox({
+		prompt: 'Profile name, e.g. "work" or "go"',
+		ignoreFocusOut: true,
+		validateInput: (value) => {
+			const trimmed = value.trim();
+			if (!trimmed) {
+				return 'Enter a name.';
+			}
+			if (!/^[\w.-]+$/.test(trimmed)) {
+				return 'Use letters, digits, ".", "-" or "_".';
+			}
+			return existing.includes(trimmed) ? `Profile "${trimmed}" already exists.` : undefined;
+		},
+	});
+	return name?.trim() || undefined;
+}
@@ -1,19 +1,47 @@
 import { randomUUID } from 'crypto';
-import { jsonSchema } from 'ai';
 import * as vscode from 'vscode';
-import { getApiKey } from './secrets';
+import type { ProfileManager } from './profiles';
+import { safeJson, serializeError, showErrorActions, toLanguageModelError } from './errors';
+import { arrangeSystemMessages, buildToolNameMap, messagesToAiSdkMessages, toolsToAiSdkTools } from './messageConversion';
 import { ModelRegistry } from './modelRegistry';
 import { OPENAI_COMPAT_PROVIDER_NAME, streamZen } from './zenClient';
 import { getOutputChannel } from './output';
+import { getGenerationSettings, resolvePresetName } from './presets';
+import { getReasoningDisplay, resolveReasoningSettings, ResponseWriter, toReasoningProviderOptions } from './reasoning';
+import { ContextManager, getContextManagementConfig } from './contextManager';
+import { getFallbackChain, shouldFallback } from './fallbacks';
+import { getRetryPolicy } from './retry';
+import { TokenCounter } from './tokenCounter';
+import type { UsageLedger } from './usageLedger';
+import type { BudgetTracker } from './budget';
+import { describeCacheBreakpoints, getBreakpointConfig, planCacheBreakpoints } from './cacheBreakpoints';
+import { resolveSessionId, type CacheKeyScope } from './cacheKeys';
+import { getCassetteConfig } from './cassettes';
+import { loadWorkspaceInstructions } from './instructions';
 
 export const VENDOR_ID = 'opencode';
 
+/** API key for a request and the profile it came from, for usage attribution. */
+type RequestCredentials = { apiKey: string; profile: string };
+
+const SUMMARY_PROMPT =
+	'Summarize the following earlier part of a coding assistant conversation so it can replace the original messages. ' +
+	'Keep the user\'s goals and constraints, decisions made, files and symbols involved, tool results that still matter ' +
+	'and any open questions. Be concise and do not address the user.';
+
 export class OpenCodeZenChatProvider implements vscode.LanguageModelChatProvider {
 	private readonly registry: ModelRegistry;
+	private readonly tokenCounter = new TokenCounter();
+	private readonly contextManager = new ContextManager(this.tokenCounter);
 	private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
 	readonly onDidChangeLanguageModelChatInformation = this.onDidChangeEmitter.event;
 
-	constructor(private readonly context: vscode.ExtensionContext) {
+	constructor(
+		private readonly context: vscode.ExtensionContext,
+		private readonly ledger: UsageLedger,
+		private readonly budget: BudgetTracker,
+		private readonly profiles: ProfileManager
+	) {
 		this.registry = new ModelRegistry(context);
 		this.registry.onDidChange(() => this.onDidChangeEmitter.fire());
 	}
@@ -39,7 +67,7 @@ export class OpenCodeZenChatProvider implements vscode.LanguageModelChatProvider
 	): vscode.ProviderResult<vscode.LanguageModelChatInformation[]> {
 		void _options;
 		void _token;
-		return getApiKey(this.context.secrets)
+		return this.profiles.getApiKey()
 			.then((apiKey) => this.registry.getModels({ hasKey: Boolean(apiKey && apiKey.trim()) }))
 			.catch((err) => {
 			// If model metadata fetch fails, surface no models rather than throwing.
@@ -55,86 +83,195 @@ export class OpenCodeZenChatProvider implements vscode.LanguageModelChatProvider
 		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
 		token: vscode.CancellationToken
 	): Promise<void> {
-		const storedApiKey = await getApiKey(this.context.secrets);
-		const apiKey = storedApiKey?.trim() ? storedApiKey : 'public';
+		await this.budget.assertWithinBudget(model.id);
+
+		const profile = this.profiles.activeProfile;
+		const storedApiKey = await this.profiles.getApiKey(profile);
+		const credentials: RequestCredentials = { apiKey: storedApiKey?.trim() ? storedApiKey : 'public', profile };
 
 		const abortController = new AbortController();
 		token.onCancellationRequested(() => abortController.abort());
 
+		let emitted = false;
+		const fallbackChain = getFallbackChain(model.id);
+		let candidate = model;
+		let chainIndex = 0;
+
+		while (true) {
+			const isFallback = candidate.id !== model.id;
+			let noted = false;
+			const trackedProgress: vscode.Progress<vscode.LanguageModelResponsePart> = {
+				report: (part) => {
+					if (isFallback && !noted) {
+						// Tell the user which model actually answered before its first output.
+						noted = true;
+						progress.report(new vscode.LanguageModelTextPart(`_Answered by ${candidate.name} (fallback for ${model.name})._\n\n`));
+					}
+					emitted = true;
+					progress.report(part);
+				},
+			};
+
+			try {
+				await this.streamFromModel(candidate, messages, options, trackedProgress, credentials, abortController.signal);
+				return;
+			} catch (err) {
+				if (abortController.signal.aborted) {
+					throw err;
+				}
+				const next = !emitted && shouldFallback(err) ? await this.nextFallbackModel(fallbackChain, chainIndex) : undefined;
+				if (!next) {
+					showErrorActions(err);
+					throw toLanguageModelError(err);
+				}
+				const message = err instanceof Error ? err.message : String(err);
+				getOutputChannel().warn(`Model ${candidate.id} failed (${message}); falling back to ${next.model.id}.`);
+				chainIndex = next.nextIndex;
+				candidate = next.model;
+				await this.budget.assertWithinBudget(candidate.id);
+			}
+		}
+	}
+
+	private async nextFallbackModel(
+		chain: readonly string[],
+		fromIndex: number
+	): Promise<{ model: vscode.LanguageModelChatInformation; nextIndex: number } | undefined> {
+		const available = await this.registry.getModels().catch(() => []);
+		for (let index = fromIndex; index < chain.length; index++) {
+			const model = available.find((info) => info.id === chain[index]);
+			if (model) {
+				return { model, nextIndex: index + 1 };
+			}
+			getOutputChannel().warn(`Fallback model ${chain[index]} is not available; skipping.`);
+		}
+		return undefined;
+	}
+
+	private async streamFromModel(
+		model: vscode.LanguageModelChatInformation,
+		messages: readonly vscode.LanguageModelChatRequestMessage[],
+		options: vscode.ProvideLanguageModelChatResponseOptions,
+		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+		credentials: RequestCredentials,
+		abortSignal: AbortSignal
+	): Promise<void> {
 		const toolMode = options.toolMode === vscode.LanguageModelChatToolMode.Required ? 'required' : 'auto';
 		const requestToolMode = model.id.endsWith('-go') && toolMode === 'required' ? 'auto' : toolMode;
 		const providerInfo = await this.registry.getModelProviderInfo(model.id);
 		const requestModelId = providerInfo?.originalModelId ?? model.id;
-		const requestMeta = await getOrCreateRequestMetadata(this.context, options);
+		const promptCaching = getPromptCachingConfig();
+		const requestMeta = await getOrCreateRequestMetadata(this.context, options, promptCaching.cacheKeyScope, messages);
 		const toolNameMap = buildToolNameMap(options.tools, providerInfo?.npm);
 		const tools = options.tools ? toolsToAiSdkTools(options.tools, toolNameMap.toProvider) : undefined;
-		const coreMessages = messagesToAiSdkMessages(messages, toolNameMap.toProvider);
-		const promptCaching = getPromptCachingConfig();
+		// Workspace instructions go first so they stay inside the cached prompt prefix.
+		const instructions = await loadWorkspaceInstructions();
+		const converted = messagesToAiSdkMessages(messages, toolNameMap.toProvider);
+		const withInstructions = instructions ? [{ role: 'system', content: instructions }, ...converted] : converted;
+		const coreMessages = await this.contextManager.fit(model, arrangeSystemMessages(withInstructions, providerInfo?.npm), {
+			tools: options.tools,
+			providerNpm: providerInfo?.npm,
+			summarize: (transcript, signal) => this.summarizeTranscript(model, transcript, credentials, signal),
+			abortSignal,
+		});
+		const modelSupportsCaching = providerInfo?.promptCaching !== false;
 		const promptCacheKey =
-			promptCaching.enabled && promptCaching.cacheKeyScope !== 'none'
+			promptCaching.enabled && modelSupportsCaching && promptCaching.cacheKeyScope !== 'none'
 				? requestMeta.sessionId
 				: undefined;
+		getOutputChannel().debug(`Prompt cache key (${promptCaching.cacheKeyScope} scope): ${promptCacheKey ?? 'not sent'}`);
 		const cacheRetention = promptCaching.enabled ? promptCaching.retention : undefined;
 		const anthropicCacheControl =
-			promptCaching.enabled && providerInfo?.npm === '@ai-sdk/anthropic'
+			promptCaching.enabled && modelSupportsCaching && providerInfo?.npm === '@ai-sdk/anthropic'
 				? buildAnthropicCacheControl(promptCaching.anthropicTtl)
 				: undefined;
 		let cachedMessages = coreMessages;
-		if (promptCaching.enabled && anthropicCacheControl) {
-			cachedMessages = applyAnthropicCacheControl(coreMessages, anthropicCacheControl);
-		} else if (promptCaching.enabled && providerInfo?.npm === '@ai-sdk/openai-compatible') {
-			if (isGlm47ModelId(model.id)) {
-				cachedMessages = removeOpenAICompatibleCacheControl(coreMessages);
+		let cachedTools = tools;
+		let cacheToolDefinitions = false;
+		const compatCaching = promptCaching.enabled && modelSupportsCaching && providerInfo?.npm === '@ai-sdk/openai-compatible';
+		if (anthropicCacheControl || compatCaching) {
+			const breakpoints = getBreakpointConfig();
+			const sizeOf = (message: { role?: string }) => this.contextManager.estimateMessageTokens(model, message, providerInfo?.npm);
+			const plan = planCacheBreakpoints(coreMessages, breakpoints, {
+				hasTools: Boolean(tools && Object.keys(tools).length > 0),
+				sizeOf,
+			});
+			if (anthropicCacheControl) {
+				cachedMessages = applyAnthropicCacheControl(coreMessages, plan.messages, anthropicCacheControl);
+				cachedTools = plan.tools ? markLastAnthropicToolCached(tools, anthropicCacheControl) : tools;
 			} else {
-				cachedMessages = applyOpenAICompatibleCacheControl(coreMessages);
+				cachedMessages = applyOpenAICompatibleCacheControl(coreMessages, plan.messages);
+				cacheToolDefinitions = plan.tools;
+			}
+			if (getOutputChannel().logLevel <= vscode.LogLevel.Debug) {
+				const toolTokens = options.tools?.length ? this.tokenCounter.count(model, JSON.stringify(options.tools), providerInfo?.npm) : 0;
+				const report = describeCacheBreakpoints(plan, coreMessages, { tools: toolTokens, sizeOf });
+				getOutputChannel().debug(`Cache breakpoints (${breakpoints.strategy}):\n${report.join('\n') || 'none'}`);
 			}
 		} else if (providerInfo?.npm === '@ai-sdk/openai-compatible') {
 			cachedMessages = removeOpenAICompatibleCacheControl(coreMessages);
 		}
 
-		const { debugFlag, modelOptions } = splitDebugOptions(options.modelOptions);
+		const { debugFlag, reasoningOverride, presetOverride, modelOptions } = splitModelOptions(options.modelOptions);
+		const reasoningSettings = resolveReasoningSettings(model.id, reasoningOverride);
+		const reasoningOptions = toReasoningProviderOptions(model, providerInfo?.npm, reasoningSettings);
+		getOutputChannel().debug(`Reasoning for ${model.id}: ${JSON.stringify(reasoningSettings)} -> ${JSON.stringify(reasoningOptions)}`);
 		const providerOptions = buildProviderOptions(
 			modelOptions,
 			providerInfo?.npm,
 			promptCacheKey,
 			cacheRetention,
-			model.id,
-			providerInfo?.options
+			providerInfo?.options,
+			reasoningOptions
 		);
 		const requestHeaders = buildRequestHeaders(requestMeta, providerInfo?.headers);
+		const presetName = resolvePresetName(model.id, presetOverride);
+		const generation = getGenerationSettings(model, presetName, providerInfo?.supportsTemperature);
+		if (presetName) {
+			getOutputChannel().debug(`Generation preset for ${model.id}: ${presetName} -> ${JSON.stringify(generation ?? {})}`);
+		}
 
 		if (debugFlag) {
 			logDebugRequest(model, requestModelId, requestToolMode, options, coreMessages, tools, providerInfo, providerOptions);
 		}
 
+		const writer = new ResponseWriter(progress, getReasoningDisplay());
 		try {
 			await streamZen(
 				{
-					apiKey,
+					apiKey: credentials.apiKey,
 					modelId: requestModelId,
 					messages: cachedMessages,
-					tools,
+					tools: cachedTools,
 					toolMode: requestToolMode,
-					abortSignal: abortController.signal,
+					abortSignal,
 					providerOptions,
 					providerNpm: providerInfo?.npm,
 					baseURL: providerInfo?.api,
 					headers: requestHeaders,
 					toolNameMap: toolNameMap.toVsCode,
 					debugLogging: debugFlag,
-					includeUsage: promptCaching.enabled,
+					// Usage is always requested so every request lands in the usage ledger.
+					includeUsage: true,
+					stripPromptCacheFields: !modelSupportsCaching,
+					cacheToolDefinitions,
+					retry: getRetryPolicy(),
+					generation,
+					cassettes: getCassetteConfig(this.context),
 				},
 				{
-					onTextDelta: (delta) => {
-						if (delta) {
-							progress.report(new vscode.LanguageModelTextPart(delta));
-						}
-					},
+					onTextDelta: (delta) => writer.text(delta),
+					onReasoningDelta: writer.showsReasoning ? (delta) => writer.reasoning(delta) : undefined,
 					onToolCall: ({ toolCallId, toolName, input }) => {
+						writer.endReasoning();
 						progress.report(new vscode.LanguageModelToolCallPart(toolCallId, toolName, input));
 					},
+					onUsage: (usage) => {
+						this.ledger.record(model.id, usage, providerInfo?.cost, credentials.profile);
+					},
 				}
 			);
+			writer.endReasoning();
 		} catch (err) {
 			if (debugFlag) {
 				logDebugError(model, requestModelId, requestToolMode, options, coreMessages, tools, providerInfo, err);
@@ -143,286 +280,66 @@ export class OpenCodeZenChatProvider implements vscode.LanguageModelChatProvider
 		}
 	}
 
+	/**
+	 * Summarizes older conversation turns for the context manager, using
+	 * `opencodeZen.contextManagement.summaryModel` when set.
+	 */
+	private async summarizeTranscript(
+		model: vscode.LanguageModelChatInformation,
+		transcript: string,
+		credentials: RequestCredentials,
+		abortSignal: AbortSignal
+	): Promise<string> {
+		const summaryModelId = getContextManagementConfig().summaryModel || model.id;
+		await this.budget.assertWithinBudget(summaryModelId);
+		const providerInfo = await this.registry.getModelProviderInfo(summaryModelId);
+		getOutputChannel().info(`Summarizing older messages with ${summaryModelId}.`);
+
+		let summary = '';
+		await streamZen(
+			{
+				apiKey: credentials.apiKey,
+				modelId: providerInfo?.originalModelId ?? summaryModelId,
+				messages: [{ role: 'user', content: `${SUMMARY_PROMPT}\n\n<transcript>\n${transcript}\n</transcript>` }],
+				toolMode: 'auto',
+				abortSignal,
+				providerOptions: buildProviderOptions(undefined, providerInfo?.npm, undefined, undefined, providerInfo?.options),
+				providerNpm: providerInfo?.npm,
+				baseURL: providerInfo?.api,
+				headers: providerInfo?.headers,
+				includeUsage: true,
+				retry: getRetryPolicy(),
+				cassettes: getCassetteConfig(this.context),
+			},
+			{
+				onTextDelta: (delta) => {
+					summary += delta;
+				},
+				onToolCall: () => undefined,
+				onUsage: (usage) => {
+					this.ledger.record(summaryModelId, usage, providerInfo?.cost, credentials.profile);
+				},
+			}
+		);
+		return summary;
+	}
+
 	async provideTokenCount(
-		_model: vscode.LanguageModelChatInformation,
+		model: vscode.LanguageModelChatInformation,
 		text: string | vscode.LanguageModelChatRequestMessage,
 		_token: vscode.CancellationToken
 	): Promise<number> {
-		void _model;
 		void _token;
-		// VS Code uses this for planning/truncation. We provide a rough estimate.
-		const serialized = typeof text === 'string' ? text : JSON.stringify(text.content);
-		return Math.max(1, Math.ceil(serialized.length / 4));
+		// VS Code uses this for planning/truncation, so counts are calibrated per model family.
+		const providerInfo = await this.registry.getModelProviderInfo(model.id).catch(() => undefined);
+		return this.tokenCounter.count(model, text, providerInfo?.npm);
 	}
 }
 
-function messagesToAiSdkMessages(
-	messages: readonly vscode.LanguageModelChatRequestMessage[],
-	toolNameMap: ReadonlyMap<string, string>
-): any[] {
-	// We use `any` to avoid hard-coupling to ai-sdk's evolving CoreMessage shape.
-	// But we must still satisfy AI SDK runtime validation.
-	const toolNameByCallId = new Map<string, string>();
-	for (const message of messages) {
-		for (const part of message.content) {
-			if (part instanceof vscode.LanguageModelToolCallPart) {
-				toolNameByCallId.set(part.callId, mapToolName(part.name, toolNameMap));
-			}
-		}
-	}
-
-	const out: any[] = [];
-
-	for (const message of messages) {
-		const mapped = mapVsCodeMessageToAiSdkMessages(message, toolNameByCallId, toolNameMap);
-		out.push(...mapped);
-	}
-
-	return out;
-}
-
-function mapVsCodeMessageToAiSdkMessages(
-	message: vscode.LanguageModelChatRequestMessage,
-	toolNameByCallId: ReadonlyMap<string, string>,
-	toolNameMap: ReadonlyMap<string, string>
-): any[] {
-	const isUser = message.role === vscode.LanguageModelChatMessageRole.User;
-
-	const textImageFileParts: any[] = [];
-	const toolResultParts: any[] = [];
-	const assistantParts: any[] = [];
-
-	for (const part of message.content) {
-		if (part instanceof vscode.LanguageModelTextPart) {
-			const textPart = { type: 'text', text: part.value };
-			if (isUser) {
-				textImageFileParts.push(textPart);
-			} else {
-				assistantParts.push(textPart);
-			}
-			continue;
-		}
-
-		if (part instanceof vscode.LanguageModelToolCallPart) {
-			// Assistant-only in VS Code input, but we handle defensively.
-			assistantParts.push({
-				type: 'tool-call',
-				toolCallId: part.callId,
-				toolName: mapToolName(part.name, toolNameMap),
-				input: part.input,
-			});
-			continue;
-		}
-
-		if (part instanceof vscode.LanguageModelToolResultPart) {
-			const toolName = toolNameByCallId.get(part.callId) ?? mapToolName('unknown', toolNameMap);
-			toolResultParts.push({
-				type: 'tool-result',
-				toolCallId: part.callId,
-				toolName,
-				output: languageModelToolResultContentToOutput(part.content),
-			});
-			continue;
-		}
-
-		if (part instanceof vscode.LanguageModelDataPart) {
-			const converted = dataPartToAiSdkPart(part);
-			if (!converted) {
-				continue;
-			}
-
-			if (isUser) {
-				textImageFileParts.push(converted);
-			} else {
-				assistantParts.push(converted);
-			}
-			continue;
-		}
-
-		// Unknown VS Code part; drop to keep AI SDK validation happy.
-	}
-
-	const out: any[] = [];
-
-	if (isUser) {
-		if (textImageFileParts.length > 0) {
-			out.push({ role: 'user', content: simplifyTextOnlyContent(textImageFileParts) });
-		}
-		if (toolResultParts.length > 0) {
-			out.push({ role: 'tool', content: toolResultParts });
-		}
-	} else {
-		out.push({ role: 'assistant', content: simplifyTextOnlyContent(assistantParts) });
-	}
-
-	return out;
-}
-
-function simplifyTextOnlyContent(parts: any[]): any {
-	if (parts.length === 0) {
-		return '';
-	}
-	if (parts.every((p) => p?.type === 'text' && typeof p.text === 'string')) {
-		// Use string to satisfy the strictest schema path.
-		return parts.map((p) => p.text).join('');
-	}
-	return parts;
-}
-
-function dataPartToAiSdkPart(part: vscode.LanguageModelDataPart): any | undefined {
-	// VS Code may include internal metadata such as cache_control in Agent/Plan mode.
-	if (part.mimeType === 'cache_control') {
-		return undefined;
-	}
-
-	if (part.mimeType.startsWith('text/')) {
-		return { type: 'text', text: new TextDecoder('utf-8').decode(part.data) };
-	}
-
-	if (part.mimeType.startsWith('image/')) {
-		// AI SDK accepts Buffer/Uint8Array.
-		return { type: 'image', image: Buffer.from(part.data), mimeType: part.mimeType };
-	}
-
-	// Fallback: represent as a file.
-	return { type: 'file', data: Buffer.from(part.data), mimeType: part.mimeType };
-}
-
-function languageModelToolResultContentToOutput(
-	content: Array<vscode.LanguageModelTextPart | vscode.LanguageModelPromptTsxPart | vscode.LanguageModelDataPart | unknown>
-): { type: 'text'; value: string } | { type: 'json'; value: unknown } | { type: 'content'; value: Array<any> } {
-	const parts: Array<any> = [];
-	const textChunks: string[] = [];
-
-	for (const part of content) {
-		if (part instanceof vscode.LanguageModelTextPart) {
-			textChunks.push(part.value);
-			parts.push({ type: 'text', text: part.value });
-			continue;
-		}
-		if (part instanceof vscode.LanguageModelPromptTsxPart) {
-			const text = String(part.value);
-			textChunks.push(text);
-			parts.push({ type: 'text', text });
-			continue;
-		}
-		if (part instanceof vscode.LanguageModelDataPart) {
-			if (part.mimeType === 'cache_control') {
-				continue;
-			}
-			if (part.mimeType.startsWith('text/')) {
-				const text = new TextDecoder('utf-8').decode(part.data);
-				textChunks.push(text);
-				parts.push({ type: 'text', text });
-				continue;
-			}
-			const base64 = Buffer.from(part.data).toString('base64');
-			if (part.mimeType.startsWith('image/')) {
-				parts.push({ type: 'image-data', data: base64, mediaType: part.mimeType });
-				continue;
-			}
-			parts.push({ type: 'file-data', data: base64, mediaType: part.mimeType });
-			continue;
-		}
-
-		if (part !== undefined) {
-			parts.push({ type: 'custom', value: part });
-		}
-	}
-
-	if (parts.length === 0) {
-		return { type: 'text', value: '' };
-	}
-
-	if (parts.every((p) => p.type === 'text')) {
-		return { type: 'text', value: textChunks.join('') };
-	}
-
-	return { type: 'content', value: parts };
-}
-
-function toolsToAiSdkTools(
-	tools: readonly vscode.LanguageModelChatTool[],
-	toolNameMap: ReadonlyMap<string, string>
-): Record<string, any> {
-	const mapped: Record<string, any> = {};
-	for (const tool of tools) {
-		// AI SDK expects either a Zod schema or a JSON Schema wrapped with jsonSchema().
-		// VS Code provides plain JSON Schema objects, so we wrap them.
-		const schema = normalizeToolSchema(tool.inputSchema);
-		const name = mapToolName(tool.name, toolNameMap);
-		mapped[name] = {
-			description: tool.description,
-			inputSchema: jsonSchema(schema as any),
-			// No `execute`: VS Code invokes tools and sends results back on next turn.
-		};
-	}
-	return mapped;
-}
-
-function normalizeToolSchema(schema: unknown): unknown {
-	const fallback = { type: 'object', properties: {}, additionalProperties: true };
-	if (!schema || typeof schema !== 'object') {
-		return fallback;
-	}
-
-	const record = schema as Record<string, unknown>;
-	if (record.type === 'object') {
-		const hasProperties = typeof record.properties === 'object' && record.properties !== null;
-		return {
-			...record,
-			properties: hasProperties ? record.properties : {},
-			additionalProperties:
-				record.additionalProperties === undefined ? true : record.additionalProperties,
-		};
-	}
-
-	return record;
-}
-
-function buildToolNameMap(
-	tools: readonly vscode.LanguageModelChatTool[] | undefined,
-	providerNpm: string | undefined
-): { toProvider: Map<string, string>; toVsCode: Map<string, string> } {
-	const toProvider = new Map<string, string>();
-	const toVsCode = new Map<string, string>();
-
-	if (!tools || tools.length === 0) {
-		return { toProvider, toVsCode };
-	}
-
-	const needsSanitize = providerNpm === '@ai-sdk/anthropic' || providerNpm === '@ai-sdk/openai' || providerNpm === '@ai-sdk/openai-compatible';
-	const used = new Set<string>();
-
-	for (const tool of tools) {
-		const baseName = needsSanitize ? sanitizeToolName(tool.name) : tool.name;
-		let name = baseName;
-		let suffix = 1;
-		while (used.has(name)) {
-			name = `${baseName}_${suffix++}`.slice(0, 128);
-		}
-		used.add(name);
-		toProvider.set(tool.name, name);
-		toVsCode.set(name, tool.name);
-	}
-
-	return { toProvider, toVsCode };
-}
-
-function sanitizeToolName(name: string): string {
-	const cleaned = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-	const trimmed = cleaned.length > 0 ? cleaned.slice(0, 128) : 'tool';
-	return trimmed;
-}
-
-function mapToolName(name: string, toolNameMap: ReadonlyMap<string, string>): string {
-	return toolNameMap.get(name) ?? name;
-}
-
 type PromptCachingConfig = {
 	enabled: boolean;
 	retention: 'in_memory' | '24h';
-	cacheKeyScope: 'workspace' | 'global' | 'none';
+	cacheKeyScope: CacheKeyScope;
 	anthropicTtl: '5m' | '1h' | 'none';
 };
 
@@ -438,21 +355,18 @@ function getPromptCachingConfig(): PromptCachingConfig {
 	return {
 		enabled: config.get<boolean>('promptCaching.enabled', true),
 		retention: config.get<'in_memory' | '24h'>('promptCaching.retention', 'in_memory'),
-		cacheKeyScope: config.get<'workspace' | 'global' | 'none'>('promptCaching.cacheKeyScope', 'workspace'),
+		cacheKeyScope: config.get<CacheKeyScope>('promptCaching.cacheKeyScope', 'workspace'),
 		anthropicTtl: config.get<'5m' | '1h' | 'none'>('promptCaching.anthropicTtl', '5m'),
 	};
 }
 
 async function getOrCreateRequestMetadata(
 	context: vscode.ExtensionContext,
-	options: vscode.ProvideLanguageModelChatResponseOptions
+	options: vscode.ProvideLanguageModelChatResponseOptions,
+	cacheKeyScope: CacheKeyScope,
+	messages: readonly vscode.LanguageModelChatRequestMessage[]
 ): Promise<RequestMetadata> {
-	const sessionStorageKey = 'opencodeZen.requestSessionId';
-	let sessionId = context.workspaceState.get<string>(sessionStorageKey);
-	if (!sessionId) {
-		sessionId = randomUUID();
-		await context.workspaceState.update(sessionStorageKey, sessionId);
-	}
+	const sessionId = await resolveSessionId(context, cacheKeyScope, messages);
 
 	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 	const projectId = workspaceFolder?.name || 'default';
@@ -505,12 +419,16 @@ function buildAnthropicCacheControl(ttl: '5m' | '1h' | 'none'): { type: 'ephemer
 	return { type: 'ephemeral', ttl };
 }
 
-function applyAnthropicCacheControl(messages: any[], cacheControl: { type: 'ephemeral'; ttl?: '5m' | '1h' }): any[] {
+function applyAnthropicCacheControl(
+	messages: any[],
+	indices: readonly number[],
+	cacheControl: { type: 'ephemeral'; ttl?: '5m' | '1h' }
+): any[] {
 	if (!Array.isArray(messages) || messages.length === 0) {
 		return messages;
 	}
 
-	return applyCacheControlToMessages(messages, (message) => {
+	return applyCacheControlToMessages(messages, indices, (message) => {
 		const existing = (message.providerOptions as Record<string, any> | undefined)?.anthropic;
 		if (existing?.cacheControl || existing?.cache_control) {
 			return message;
@@ -522,25 +440,59 @@ function applyAnthropicCacheControl(messages: any[], cacheControl: { type: 'ephe
 	});
 }
 
-function applyOpenAICompatibleCacheControl(messages: any[]): any[] {
+/** Tools go first in an Anthropic prompt, so a breakpoint on the last one caches all tool definitions. */
+function markLastAnthropicToolCached(
+	tools: Record<string, any> | undefined,
+	cacheControl: { type: 'ephemeral'; ttl?: '5m' | '1h' }
+): Record<string, any> | undefined {
+	const names = Object.keys(tools ?? {});
+	if (!tools || names.length === 0) {
+		return tools;
+	}
+	const last = names[names.length - 1];
+	return {
+		...tools,
+		[last]: { ...tools[last], providerOptions: mergeProviderOptions(tools[last].providerOptions, { anthropic: { cacheControl } }) },
+	};
+}
+
+function applyOpenAICompatibleCacheControl(messages: any[], indices: readonly number[]): any[] {
 	if (!Array.isArray(messages) || messages.length === 0) {
 		return messages;
 	}
 
-	return applyCacheControlToMessages(messages, (message) => {
+	return applyCacheControlToMessages(messages, indices, (message) => {
 		const existing = (message.providerOptions as Record<string, any> | undefined)?.openaiCompatible;
 		if (existing?.cache_control) {
 			return message;
 		}
+		const marker = { openaiCompatible: { cache_control: { type: 'ephemeral' } } };
 		return {
 			...message,
-			providerOptions: mergeProviderOptions(message.providerOptions, {
-				openaiCompatible: { cache_control: { type: 'ephemeral' } },
-			}),
+			content: markSingleTextUserContent(message, marker),
+			providerOptions: mergeProviderOptions(message.providerOptions, marker),
 		};
 	});
 }
 
+/**
+ * The OpenAI-compatible converter flattens a user message with a single text part to a string
+ * and only keeps that part's metadata, so the marker has to sit on the part as well.
+ */
+function markSingleTextUserContent(message: any, marker: Record<string, any>): unknown {
+	if (message.role !== 'user') {
+		return message.content;
+	}
+	if (typeof message.content === 'string') {
+		return [{ type: 'text', text: message.content, providerOptions: marker }];
+	}
+	if (Array.isArray(message.content) && message.content.length === 1 && message.content[0]?.type === 'text') {
+		const [part] = message.content;
+		return [{ ...part, providerOptions: mergeProviderOptions(part.providerOptions, marker) }];
+	}
+	return message.content;
+}
+
 function removeOpenAICompatibleCacheControl(messages: any[]): any[] {
 	if (!Array.isArray(messages) || messages.length === 0) {
 		return messages;
@@ -568,35 +520,12 @@ function removeOpenAICompatibleCacheControl(messages: any[]): any[] {
 	return changed ? stripped : messages;
 }
 
-function isGlm47ModelId(modelId: string): boolean {
-	const normalized = modelId.trim().toLowerCase();
-	return normalized === 'glm-4.7' || normalized.endsWith('/glm-4.7');
-}
-
-function applyCacheControlToMessages(messages: any[], updater: (message: any) => any): any[] {
-	const systemIndices: number[] = [];
-	const nonSystemIndices: number[] = [];
-	for (let i = 0; i < messages.length; i++) {
-		const role = messages[i]?.role;
-		if (role === 'system') {
-			systemIndices.push(i);
-		} else {
-			nonSystemIndices.push(i);
-		}
-	}
-
-	const selected = new Set<number>();
-	for (const index of systemIndices.slice(0, 2)) {
-		selected.add(index);
-	}
-	for (const index of nonSystemIndices.slice(-2)) {
-		selected.add(index);
-	}
-
-	if (selected.size === 0) {
+function applyCacheControlToMessages(messages: any[], indices: readonly number[], updater: (message: any) => any): any[] {
+	if (indices.length === 0) {
 		return messages;
 	}
 
+	const selected = new Set(indices);
 	return messages.map((message, index) => {
 		if (!selected.has(index) || !message || typeof message !== 'object') {
 			return message;
@@ -610,42 +539,17 @@ function buildProviderOptions(
 	providerNpm: string | undefined,
 	cacheKey: string | undefined,
 	retention: 'in_memory' | '24h' | undefined,
-	modelId: string,
-	modelDefaults: Record<string, unknown> | undefined
+	modelDefaults: Record<string, unknown> | undefined,
+	reasoningOptions?: Record<string, unknown>
 ): Record<string, unknown> | undefined {
 	const merged = modelOptions ? { ...modelOptions } : {};
-	const normalizedModelId = modelId.toLowerCase();
-	const result: Record<string, unknown> = modelDefaults ? { ...modelDefaults } : {};
+	// Reasoning settings win over model defaults; nested configs such as `thinkingConfig` are merged.
+	const result = mergeProviderOptions(modelDefaults, reasoningOptions ?? {});
 
 	if (providerNpm === '@ai-sdk/openai') {
 		result.store = false;
 	}
 
-	if (providerNpm === '@ai-sdk/google') {
-		result.thinkingConfig = {
-			includeThoughts: true,
-			...(normalizedModelId.includes('gemini-3') ? { thinkingLevel: 'high' } : {}),
-		};
-	}
-
-	if (providerNpm === '@ai-sdk/anthropic' && isKimiK25(normalizedModelId)) {
-		result.thinking = {
-			type: 'enabled',
-			budgetTokens: 16_000,
-		};
-	}
-
-	if (normalizedModelId.includes('gpt-5') && !normalizedModelId.includes('gpt-5-chat')) {
-		if (!normalizedModelId.includes('gpt-5-pro')) {
-			result.reasoningEffort = 'medium';
-			result.reasoningSummary = 'auto';
-		}
-		if (normalizedModelId.includes('gpt-5.') && !normalizedModelId.includes('codex') && !normalizedModelId.includes('-chat')) {
-			result.textVerbosity = 'low';
-		}
-		result.include = ['reasoning.encrypted_content'];
-	}
-
 	const setCacheKey = (merged.setCacheKey as boolean | undefined) ?? true;
 	delete merged.setCacheKey;
 
@@ -698,10 +602,6 @@ function providerOptionsKey(providerNpm: string | undefined): string | undefined
 	return undefined;
 }
 
-function isKimiK25(modelId: string): boolean {
-	return modelId.includes('k2p5') || modelId.includes('kimi-k2.5') || modelId.includes('kimi-k2p5');
-}
-
 function mergeProviderOptions(
 	base: Record<string, unknown> | undefined,
 	addition: Record<string, unknown>
@@ -722,18 +622,26 @@ function mergeProviderOptions(
 	return merged;
 }
 
-function splitDebugOptions(
+/**
+ * Separates options this extension handles itself (the self-test debug flag, the `reasoning`
+ * override and the `preset` name) from the provider options passed through to the AI SDK.
+ */
+function splitModelOptions(
 	modelOptions: vscode.ProvideLanguageModelChatResponseOptions['modelOptions'] | undefined
-): { debugFlag: boolean; modelOptions?: Record<string, unknown> } {
+): { debugFlag: boolean; reasoningOverride?: unknown; presetOverride?: unknown; modelOptions?: Record<string, unknown> } {
 	if (!modelOptions || typeof modelOptions !== 'object') {
 		return { debugFlag: false, modelOptions: modelOptions as Record<string, unknown> | undefined };
 	}
 
 	const copy = { ...(modelOptions as Record<string, unknown>) };
 	const debugFlag = Boolean(copy.__opencodeDebugSelfTest);
+	const reasoningOverride = copy.reasoning;
+	const presetOverride = copy.preset;
 	delete copy.__opencodeDebugSelfTest;
+	delete copy.reasoning;
+	delete copy.preset;
 
-	return { debugFlag, modelOptions: Object.keys(copy).length > 0 ? copy : undefined };
+	return { debugFlag, reasoningOverride, presetOverride, modelOptions: Object.keys(copy).length > 0 ? copy : undefined };
 }
 
 function logDebugRequest(
@@ -787,49 +695,3 @@ function logDebugError(
 		error: serializeError(err),
 	})}\n`);
 }
-
-function serializeError(err: unknown): unknown {
-	const seen = new Set<unknown>();
-
-	const toPlain = (value: unknown, depth: number): unknown => {
-		if (value === null || value === undefined) {
-			return value;
-		}
-		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-			return value;
-		}
-		if (value instanceof Uint8Array) {
-			return Buffer.from(value).toString('utf-8');
-		}
-		if (typeof value !== 'object') {
-			return String(value);
-		}
-		if (seen.has(value)) {
-			return '[Circular]';
-		}
-		seen.add(value);
-		if (depth <= 0) {
-			return '[MaxDepth]';
-		}
-
-		const record = value as Record<string, unknown>;
-		const out: Record<string, unknown> = {};
-		for (const key of Object.getOwnPropertyNames(record)) {
-			out[key] = toPlain(record[key], depth - 1);
-		}
-		if ('cause' in record) {
-			out.cause = toPlain(record.cause, depth - 1);
-		}
-		return out;
-	};
-
-	return toPlain(err, 4);
-}
-
-function safeJson(value: unknown): string {
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}
@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { matchesGlob } from './glob';
+import { getOutputChannel } from './output';
+
+export type ReasoningDisplay = 'hidden' | 'inline' | 'thinking';
+
+/**
+ * Provider-neutral reasoning settings from `opencodeZen.reasoning.perModel` or the `reasoning`
+ * request model option. They are translated to each provider's own option names.
+ */
+export type ReasoningSettings = {
+	effort?: string;
+	summary?: string;
+	verbosity?: string;
+	/** Thinking token budget for Anthropic and Google models. 0 disables thinking, -1 is Google's dynamic budget. */
+	thinkingBudget?: number;
+	includeThoughts?: boolean;
+};
+
+type ReasoningEntry = { pattern: string; settings: ReasoningSettings };
+
+/** `vscode.LanguageModelThinkingPart` from the proposed thinking API. */
+type ThinkingPartClass = new (value: string) => unknown;
+
+const BUILTIN_REASONING_SETTINGS: readonly ReasoningEntry[] = [
+	{ pattern: '*gemini-3*', settings: { effort: 'high' } },
+];
+
+const OPENAI_EFFORTS = ['none', 'minimal', 'low', 'medium', 'high', 'xhigh'];
+const OPENAI_SUMMARIES = ['auto', 'concise', 'detailed'];
+const VERBOSITIES = ['low', 'medium', 'high'];
+const ANTHROPIC_EFFORTS = ['low', 'medium', 'high'];
+const GOOGLE_THINKING_LEVELS = ['minimal', 'low', 'medium', 'high'];
+const ANTHROPIC_MIN_THINKING_BUDGET = 1_024;
+const GOOGLE_MAX_THINKING_BUDGET = 32_768;
+
+/** First line of an inline reasoning block; every following line of the block starts with `>`. */
+const INLINE_HEADER = '> **Reasoning**';
+const INLINE_BLOCK_PATTERN = /(^|\n)> \*\*Reasoning\*\*(?:\n>[^\n]*)*\n*/g;
+
+let thinkingFallbackLogged = false;
+const loggedWarnings = new Set<string>();
+
+export function getReasoningDisplay(): ReasoningDisplay {
+	return vscode.workspace.getConfiguration('opencodeZen').get<ReasoningDisplay>('reasoning.display', 'inline');
+}
+
+/**
+ * Writes answer text and reasoning to the chat response according to `opencodeZen.reasoning.display`.
+ * Inline reasoning is rendered as a block quote so it can be told apart from the answer, and
+ * stripped again by `stripReasoningBlocks` when the message comes back as history.
+ */
+export class ResponseWriter {
+	private readonly thinkingPart: ThinkingPartClass | undefined;
+	private inReasoning = false;
+	private wroteAny = false;
+
+	constructor(
+		private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+		private readonly display: ReasoningDisplay
+	) {
+		// Thinking parts are not part of the stable API yet; use them when this VS Code build has them.
+		this.thinkingPart =
+			display === 'thinking' ? (vscode as { LanguageModelThinkingPart?: ThinkingPartClass }).LanguageModelThinkingPart : undefined;
+		if (display === 'thinking' && !this.thinkingPart && !thinkingFallbackLogged) {
+			thinkingFallbackLogged = true;
+			getOutputChannel().info('This VS Code version has no thinking response part; showing reasoning inline instead.');
+		}
+	}
+
+	/** True when reasoning deltas are shown to the user at all. */
+	get showsReasoning(): boolean {
+		return this.display !== 'hidden';
+	}
+
+	text(delta: string): void {
+		if (!delta) {
+			return;
+		}
+		this.endReasoning();
+		this.write(delta);
+	}
+
+	reasoning(delta: string): void {
+		if (!delta || this.display === 'hidden') {
+			return;
+		}
+		if (this.thinkingPart) {
+			this.progress.report(new this.thinkingPart(delta) as vscode.LanguageModelResponsePart);
+			return;
+		}
+		if (!this.inReasoning) {
+			this.inReasoning = true;
+			this.write(`${this.wroteAny ? '\n\n' : ''}${INLINE_HEADER}\n> `);
+		}
+		this.write(delta.replace(/\n/g, '\n> '));
+	}
+
+	/** Closes an open inline reasoning block, e.g. before a tool call or at the end of the response. */
+	endReasoning(): void {
+		if (this.inReasoning) {
+			this.inReasoning = false;
+			this.write('\n\n');
+		}
+	}
+
+	private write(value: string): void {
+		this.wroteAny = true;
+		this.progress.report(new vscode.LanguageModelTextPart(value));
+	}
+}
+
+/** Removes inline reasoning blocks from assistant text so they are not sent back as input. */
+export function stripReasoningBlocks(text: string): string {
+	if (!text.includes(INLINE_HEADER)) {
+		return text;
+	}
+	return text.replace(INLINE_BLOCK_PATTERN, '$1');
+}
+
+/**
+ * Merges the built-in defaults, matching `opencodeZen.reasoning.perModel` entries (in order) and
+ * a per-request override from `modelOptions.reasoning`.
+ */
+export function resolveReasoningSettings(modelId: string, requestOverride?: unknown): ReasoningSettings {
+	const configured = vscode.workspace.getConfiguration('opencodeZen').get<Record<string, ReasoningSettings>>('reasoning.perModel', {});
+	const entries: ReasoningEntry[] = [
+		...BUILTIN_REASONING_SETTINGS,
+		...Object.entries(configured ?? {}).map(([pattern, settings]) => ({ pattern, settings })),
+	];
+
+	let resolved: ReasoningSettings = {};
+	for (const { pattern, settings } of entries) {
+		if (settings && typeof settings === 'object' && matchesGlob(modelId, pattern)) {
+			resolved = { ...resolved, ...settings };
+		}
+	}
+	if (requestOverride && typeof requestOverride === 'object' && !Array.isArray(requestOverride)) {
+		resolved = { ...resolved, ...(requestOverride as ReasoningSettings) };
+	}
+	return resolved;
+}
+
+/**
+ * Translates reasoning settings to provider options for `providerNpm`. Values outside the
+ * provider's allowed range, or settings the provider does not support, are skipped with a warning.
+ */
+export function toReasoningProviderOptions(
+	model: Pick<vscode.LanguageModelChatInformation, 'id' | 'maxOutputTokens'>,
+	providerNpm: string | undefined,
+	settings: ReasoningSettings
+): Record<string, unknown> {
+	const options: Record<string, unknown> = {};
+	const warn = (setting: keyof ReasoningSettings, reason: string) => {
+		const message = `Ignoring reasoning setting "${setting}" (${JSON.stringify(settings[setting])}) for ${model.id}: ${reason}.`;
+		if (!loggedWarnings.has(message)) {
+			loggedWarnings.add(message);
+			getOutputChannel().warn(message);
+		}
+	};
+	const oneOf = (setting: keyof ReasoningSettings, allowed: readonly string[]) => {
+		const value = settings[setting];
+		if (value === undefined) {
+			return undefined;
+		}
+		if (typeof value !== 'string' || !allowed.includes(value)) {
+			warn(setting, `expected one of ${allowed.join(', ')}`);
+			return undefined;
+		}
+		return value;
+	};
+	const unsupported = (...names: Array<keyof ReasoningSettings>) => {
+		for (const name of names) {
+			if (settings[name] !== undefined) {
+				warn(name, `not supported by ${providerNpm ?? 'this provider'}`);
+			}
+		}
+	};
+	const budget = settings.thinkingBudget;
+	const isInteger = typeof budget === 'number' && Number.isInteger(budget);
+
+	if (providerNpm === '@ai-sdk/openai' || providerNpm === '@ai-sdk/openai-compatible') {
+		const reasoningEffort = oneOf('effort', OPENAI_EFFORTS);
+		const textVerbosity = oneOf('verbosity', VERBOSITIES);
+		if (reasoningEffort) {
+			options.reasoningEffort = reasoningEffort;
+		}
+		if (textVerbosity) {
+			options.textVerbosity = textVerbosity;
+		}
+		if (providerNpm === '@ai-sdk/openai') {
+			const reasoningSummary = oneOf('summary', OPENAI_SUMMARIES);
+			if (reasoningSummary) {
+				options.reasoningSummary = reasoningSummary;
+			}
+			unsupported('thinkingBudget', 'includeThoughts');
+		} else {
+			unsupported('summary', 'thinkingBudget', 'includeThoughts');
+		}
+	} else if (providerNpm === '@ai-sdk/anthropic') {
+		const effort = oneOf('effort', ANTHROPIC_EFFORTS);
+		if (effort) {
+			options.effort = effort;
+		}
+		if (budget !== undefined) {
+			if (budget === 0) {
+				options.thinking = { type: 'disabled' };
+			} else if (!isInteger || budget < ANTHROPIC_MIN_THINKING_BUDGET || budget >= model.maxOutputTokens) {
+				warn('thinkingBudget', `expected 0 or an integer from ${ANTHROPIC_MIN_THINKING_BUDGET} to ${model.maxOutputTokens - 1}`);
+			} else {
+				options.thinking = { type: 'enabled', budgetTokens: budget };
+			}
+		}
+		unsupported('summary', 'verbosity', 'includeThoughts');
+	} else if (providerNpm === '@ai-sdk/google') {
+		const thinkingConfig: Record<string, unknown> = { includeThoughts: settings.includeThoughts ?? true };
+		const thinkingLevel = oneOf('effort', GOOGLE_THINKING_LEVELS);
+		if (thinkingLevel) {
+			thinkingConfig.thinkingLevel = thinkingLevel;
+		}
+		if (budget !== undefined) {
+			if (!isInteger || budget < -1 || budget > GOOGLE_MAX_THINKING_BUDGET) {
+				warn('thinkingBudget', `expected -1 (dynamic) or an integer from 0 to ${GOOGLE_MAX_THINKING_BUDGET}`);
+			} else {
+				thinkingConfig.thinkingBudget = budget;
+			}
+		}
+		if (typeof settings.includeThoughts !== 'boolean' && settings.includeThoughts !== undefined) {
+			warn('includeThoughts', 'expected true or false');
+			thinkingConfig.includeThoughts = true;
+		}
+		options.thinkingConfig = thinkingConfig;
+		unsupported('summary', 'verbosity');
+	}
+
+	return options;
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { classifyApiError } from './errors';
+
+export type RetryPolicy = {
+	/** Total attempts including the first one. 1 disables retries. */
+	maxAttempts: number;
+	/** Upper bound for a single backoff delay, including server-provided Retry-After values. */
+	maxDelayMs: number;
+};
+
+const BASE_DELAY_MS = 1_000;
+
+export function getRetryPolicy(): RetryPolicy {
+	const config = vscode.workspace.getConfiguration('opencodeZen');
+	return {
+		maxAttempts: Math.max(1, Math.floor(config.get<number>('retry.maxAttempts', 3))),
+		maxDelayMs: Math.max(0, config.get<number>('retry.maxDelaySeconds', 30)) * 1_000,
+	};
+}
+
+/** True for rate limits, transient server errors and dropped connections, as `classifyApiError` decides. */
+export function isRetryableError(err: unknown): boolean {
+	return classifyApiError(err).retryable;
+}
+
+/**
+ * Exponential backoff with full jitter, unless the server sent `Retry-After` / `retry-after-ms`.
+ * Both are capped at `policy.maxDelayMs`.
+ */
+export function computeRetryDelay(attempt: number, err: unknown, policy: RetryPolicy): number {
+	const retryAfterMs = findRetryAfterMs(err);
+	if (retryAfterMs !== undefined) {
+		return Math.min(policy.maxDelayMs, retryAfterMs);
+	}
+	const exponential = Math.min(policy.maxDelayMs, BASE_DELAY_MS * 2 ** (attempt - 1));
+	return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+export function describeRetryReason(err: unknown): string {
+	for (const candidate of errorChain(err)) {
+		const status = candidate.statusCode ?? candidate.status;
+		if (typeof status === 'number') {
+			return `HTTP ${status}`;
+		}
+		if (typeof candidate.code === 'string') {
+			return candidate.code;
+		}
+	}
+	return err instanceof Error ? err.message : String(err);
+}
+
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(new Error('Request aborted.'));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new Error('Request aborted.'));
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+function findRetryAfterMs(err: unknown): number | undefined {
+	for (const candidate of errorChain(err)) {
+		const headers = candidate.responseHeaders as Record<string, string> | undefined;
+		if (!headers || typeof headers !== 'object') {
+			continue;
+		}
+		const retryAfterMs = Number(headers['retry-after-ms']);
+		if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+			return retryAfterMs;
+		}
+		const retryAfter = headers['retry-after'];
+		if (retryAfter === undefined) {
+			continue;
+		}
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1_000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+	}
+	return undefined;
+}
+
+function errorChain(err: unknown): Record<string, any>[] {
+	const chain: Record<string, any>[] = [];
+	let current: unknown = err;
+	while (current && typeof current === 'object' && chain.length < 5) {
+		chain.push(current as Record<string, any>);
+		current = (current as { cause?: unknown }).cause;
+	}
+	return chain;
+}
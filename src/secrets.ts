@@ -2,15 +2,22 @@ import type * as vscode from 'vscode';
 
 const SECRET_KEY = 'opencodeZen.apiKey';
 
-export async function getApiKey(secrets: vscode.SecretStorage): Promise<string | undefined> {
-	const stored = await secrets.get(SECRET_KEY);
+/** Profile whose key is stored under the original `opencodeZen.apiKey` secret. */
+export const DEFAULT_PROFILE = 'default';
+
+export async function getApiKey(secrets: vscode.SecretStorage, profile = DEFAULT_PROFILE): Promise<string | undefined> {
+	const stored = await secrets.get(secretKey(profile));
 	return stored ?? undefined;
 }
 
-export async function setApiKey(secrets: vscode.SecretStorage, apiKey: string): Promise<void> {
-	await secrets.store(SECRET_KEY, apiKey);
+export async function setApiKey(secrets: vscode.SecretStorage, apiKey: string, profile = DEFAULT_PROFILE): Promise<void> {
+	await secrets.store(secretKey(profile), apiKey);
+}
+
+export async function clearApiKey(secrets: vscode.SecretStorage, profile = DEFAULT_PROFILE): Promise<void> {
+	await secrets.delete(secretKey(profile));
 }
 
-export async function clearApiKey(secrets: vscode.SecretStorage): Promise<void> {
-	await secrets.delete(SECRET_KEY);
+function secretKey(profile: string): string {
+	return profile === DEFAULT_PROFILE ? SECRET_KEY : `${SECRET_KEY}.${profile}`;
 }
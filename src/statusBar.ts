@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { SWITCH_PROFILE_COMMAND, type ProfileManager } from './profiles';
+import type { UsageEntry, UsageLedger } from './usageLedger';
+import { formatCost, sumEntries } from './usageReport';
+
+export const SHOW_SESSION_USAGE_COMMAND = 'opencodeZen.showSessionUsage';
+
+/**
+ * Status bar summary of this session's requests: last model, total tokens, estimated cost and
+ * prompt cache hit ratio.
+ */
+export class UsageStatusBar implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+	private readonly subscription: vscode.Disposable;
+	private entries: UsageEntry[] = [];
+
+	constructor(ledger: UsageLedger) {
+		this.item = vscode.window.createStatusBarItem('opencodeZen.sessionUsage', vscode.StatusBarAlignment.Right, 100);
+		this.item.name = 'OpenCode Zen Usage';
+		this.item.command = SHOW_SESSION_USAGE_COMMAND;
+		this.subscription = ledger.onDidRecord((entry) => {
+			this.entries.push(entry);
+			this.update();
+		});
+		this.update();
+	}
+
+	dispose(): void {
+		this.subscription.dispose();
+		this.item.dispose();
+	}
+
+	reset(): void {
+		this.entries = [];
+		this.update();
+	}
+
+	async showDetails(): Promise<void> {
+		type Item = vscode.QuickPickItem & { reset?: boolean };
+		const items: Item[] = [
+			{ label: '$(clear-all) Reset session usage', reset: true },
+			{ label: 'Requests', kind: vscode.QuickPickItemKind.Separator },
+			...[...this.entries].reverse().map((entry) => ({
+				label: entry.modelId,
+				description: `${formatTokens(entry.inputTokens + entry.outputTokens)} tokens · ${formatCost(entry.cost)}`,
+				detail:
+					`${new Date(entry.timestamp).toLocaleTimeString()} · in ${entry.inputTokens}, out ${entry.outputTokens}, ` +
+					`cache read ${entry.cacheReadTokens}, cache write ${entry.cacheWriteTokens} (${formatRatio(cacheHitRatio([entry]))} cached)`,
+			})),
+		];
+
+		const picked = await vscode.window.showQuickPick(items, {
+			title: `OpenCode Zen session usage (${this.entries.length} requests)`,
+			matchOnDetail: true,
+		});
+		if (picked?.reset) {
+			this.reset();
+		}
+	}
+
+	private update(): void {
+		const last = this.entries[this.entries.length - 1];
+		if (!last) {
+			this.item.text = '$(pulse) Zen';
+			this.item.tooltip = 'OpenCode Zen: no requests this session';
+			this.item.show();
+			return;
+		}
+
+		const totals = sumEntries(this.entries);
+		const ratio = formatRatio(cacheHitRatio(this.entries));
+		this.item.text = `$(pulse) ${last.modelId} · ${formatTokens(totals.inputTokens + totals.outputTokens)} · ${formatCost(totals.cost)} · ${ratio}`;
+		this.item.tooltip = new vscode.MarkdownString([
+			'**OpenCode Zen session usage**',
+			'',
+			`Last model: ${last.modelId}`,
+			`Requests: ${totals.requests}`,
+			`Tokens: ${totals.inputTokens} in, ${totals.outputTokens} out`,
+			`Cache: ${totals.cacheReadTokens} read, ${totals.cacheWriteTokens} write (${ratio} of input)`,
+			`Estimated cost: ${formatCost(totals.cost)}`,
+		].join('  \n'));
+		this.item.show();
+	}
+}
+
+/**
+ * Status bar indicator of the active API key profile; click it to switch profiles.
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+	private readonly subscription: vscode.Disposable;
+
+	constructor(private readonly profiles: ProfileManager) {
+		this.item = vscode.window.createStatusBarItem('opencodeZen.profile', vscode.StatusBarAlignment.Right, 101);
+		this.item.name = 'OpenCode Zen Profile';
+		this.item.command = SWITCH_PROFILE_COMMAND;
+		this.subscription = profiles.onDidChangeActiveProfile(() => void this.update());
+		void this.update();
+	}
+
+	dispose(): void {
+		this.subscription.dispose();
+		this.item.dispose();
+	}
+
+	private async update(): Promise<void> {
+		const profile = this.profiles.activeProfile;
+		this.item.text = `$(key) ${profile}`;
+		this.item.tooltip = `OpenCode Zen API key profile: ${profile}. Click to switch.`;
+		this.item.show();
+
+		const credential = await this.profiles.resolveCredential(profile).catch(() => undefined);
+		if (profile !== this.profiles.activeProfile) {
+			return;
+		}
+		const source = credential ? `API key from ${credential.description}` : 'No API key (free models only)';
+		this.item.tooltip = `OpenCode Zen API key profile: ${profile}. ${source}. Click to switch.`;
+	}
+}
+
+function cacheHitRatio(entries: readonly UsageEntry[]): number {
+	const totals = sumEntries(entries);
+	return totals.inputTokens > 0 ? totals.cacheReadTokens / totals.inputTokens : 0;
+}
+
+function formatRatio(ratio: number): string {
+	return `${Math.round(ratio * 100)}%`;
+}
+
+function formatTokens(tokens: number): string {
+	if (tokens >= 1_000_000) {
+		return `${(tokens / 1_000_000).toFixed(1)}M`;
+	}
+	if (tokens >= 1_000) {
+		return `${(tokens / 1_000).toFixed(1)}k`;
+	}
+	return String(tokens);
+}
@@ -0,0 +1,47 @@
+import * as assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { checkApiKey } from '../apiKeyCheck';
+import { MOCK_API_KEY, MockZenServer, SCENARIOS } from './support/mockZenServer';
+
+const server = new MockZenServer();
+
+describe('checkApiKey', () => {
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => server.reset());
+
+	it('accepts a key that gets past authentication', async () => {
+		const result = await checkApiKey(MOCK_API_KEY, server.baseUrl);
+
+		assert.equal(result.status, 'valid');
+		assert.equal(result.message, 'API key is valid.');
+		const [request] = server.requests;
+		assert.equal(request.method, 'POST');
+		assert.equal(request.path, '/zen/v1/chat/completions');
+		assert.deepEqual(request.body.messages, []);
+	});
+
+	it('reports a mistyped key as invalid', async () => {
+		const result = await checkApiKey(`${MOCK_API_KEY}x`, server.baseUrl);
+
+		assert.equal(result.status, 'invalid');
+		assert.equal(result.message, 'API key was rejected: Invalid API key.');
+	});
+
+	it('reports a key without balance as valid', async () => {
+		server.enqueue({ error: { status: 402, body: { error: { message: 'Insufficient balance.' }, balance: 0 } } });
+
+		const result = await checkApiKey(MOCK_API_KEY, server.baseUrl);
+
+		assert.equal(result.status, 'valid');
+		assert.equal(result.message, 'API key is valid, but the account has no balance left: Insufficient balance.');
+		assert.deepEqual(result.account, ['balance: 0']);
+	});
+
+	it('leaves the status unknown when Zen is rate limiting or down', async () => {
+		server.enqueue(SCENARIOS.rateLimited, { error: { status: 503, body: { error: { message: 'Service unavailable.' } } } });
+
+		assert.equal((await checkApiKey(MOCK_API_KEY, server.baseUrl)).status, 'unknown');
+		assert.equal((await checkApiKey(MOCK_API_KEY, server.baseUrl)).status, 'unknown');
+	});
+});
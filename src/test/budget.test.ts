@@ -0,0 +1,71 @@
+import { mkdtemp, rm } from 'fs/promises';
+import * as assert from 'node:assert/strict';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BudgetTracker } from '../budget';
+import { UsageLedger } from '../usageLedger';
+import { createExtensionContext } from './support/extensionContext';
+import { resetConfiguration, setConfiguration } from './support/vscode';
+
+/** Usage that costs exactly $1 with `ONE_DOLLAR_PER_MILLION`. */
+const MILLION_OUTPUT_TOKENS = { inputTokens: 0, outputTokens: 1_000_000, cacheReadTokens: 0, cacheWriteTokens: 0 };
+const ONE_DOLLAR_PER_MILLION = { output: 1 };
+
+const storageDirs: string[] = [];
+let ledger: UsageLedger;
+let budget: BudgetTracker;
+
+function spend(modelId: string): void {
+	ledger.record(modelId, MILLION_OUTPUT_TOKENS, ONE_DOLLAR_PER_MILLION, 'default');
+}
+
+async function blockedMessage(modelId: string): Promise<string | undefined> {
+	try {
+		await budget.assertWithinBudget(modelId);
+		return undefined;
+	} catch (err) {
+		assert.ok(err instanceof vscode.LanguageModelError);
+		return err.message;
+	}
+}
+
+describe('BudgetTracker', () => {
+	beforeEach(async () => {
+		const storageDir = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-budget-'));
+		storageDirs.push(storageDir);
+		ledger = new UsageLedger(createExtensionContext(storageDir));
+		budget = new BudgetTracker(ledger);
+	});
+
+	afterEach(() => {
+		budget.dispose();
+		resetConfiguration();
+	});
+
+	after(async () => {
+		await Promise.all(storageDirs.map((dir) => rm(dir, { recursive: true, force: true, maxRetries: 5 })));
+	});
+
+	it('shares a per-model cap between every model its glob matches', async () => {
+		setConfiguration({ 'opencodeZen.budget.perModel': { 'claude-opus-*': { daily: 1.5 } } });
+		await budget.assertWithinBudget('claude-opus-4-5');
+		spend('claude-opus-4-5');
+		spend('claude-opus-4-1');
+
+		assert.match((await blockedMessage('claude-opus-4-5')) ?? '', /daily spending cap for claude-opus-\* of \$1\.50 reached \(spent \$2\.00\)/);
+		assert.equal(await blockedMessage('claude-sonnet-4-5'), undefined);
+	});
+
+	it('counts entries recorded while the ledger is loading once', async () => {
+		setConfiguration({ 'opencodeZen.budget.daily': 2.5 });
+		spend('gpt-5');
+		const firstCheck = budget.assertWithinBudget('gpt-5');
+		spend('gpt-5');
+		await firstCheck;
+		spend('gpt-5');
+
+		assert.match((await blockedMessage('gpt-5')) ?? '', /daily spending cap of \$2\.50 reached \(spent \$3\.00\)/);
+	});
+});
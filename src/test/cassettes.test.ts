@@ -0,0 +1,79 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import * as assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import type { Cassette, CassetteConfig } from '../cassettes';
+import { streamZen } from '../zenClient';
+import { MockZenServer, SCENARIOS } from './support/mockZenServer';
+
+const server = new MockZenServer();
+let directory: string;
+
+async function run(baseURL: string, cassettes: CassetteConfig): Promise<string> {
+	let text = '';
+	await streamZen(
+		{
+			apiKey: 'test-key',
+			modelId: 'mock-model',
+			messages: [{ role: 'user', content: 'Hi' }],
+			toolMode: 'auto',
+			abortSignal: new AbortController().signal,
+			providerNpm: '@ai-sdk/openai-compatible',
+			baseURL,
+			headers: { 'x-opencode-session': 'session-1' },
+			cassettes,
+		},
+		{
+			onTextDelta: (delta) => {
+				text += delta;
+			},
+			onToolCall: () => undefined,
+		}
+	);
+	return text;
+}
+
+/** Recording saves the cassette once the tee'd response stream ends, which can trail `streamZen`. */
+async function waitForCassetteFiles(): Promise<string[]> {
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const files = await readdir(directory).catch(() => []);
+		if (files.length > 0) {
+			return files;
+		}
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+	assert.fail(`No cassette was written to ${directory}`);
+}
+
+describe('cassettes', () => {
+	before(async () => {
+		await server.start();
+		directory = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-cassettes-'));
+	});
+
+	after(() => rm(directory, { recursive: true, force: true }));
+
+	it('records a streamZen exchange and replays it without the server', async () => {
+		const baseURL = server.baseUrl;
+		server.enqueue(SCENARIOS.text);
+		let recorded: string;
+		try {
+			recorded = await run(baseURL, { mode: 'record', directory });
+		} finally {
+			await server.stop();
+		}
+		assert.equal(recorded, 'Hello from the mock.');
+
+		const files = await waitForCassetteFiles();
+		assert.equal(files.length, 1);
+		const raw = await readFile(path.join(directory, files[0]), 'utf-8');
+		const cassette = JSON.parse(raw) as Cassette;
+		assert.equal(cassette.request.headers.authorization, '[REDACTED]');
+		assert.equal(cassette.request.headers['x-opencode-session'], 'session-1');
+		assert.equal(raw.includes('test-key'), false);
+
+		const replayed = await run(baseURL, { mode: 'replay', directory });
+		assert.equal(replayed, 'Hello from the mock.');
+	});
+});
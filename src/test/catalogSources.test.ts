@@ -0,0 +1,51 @@
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import * as assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as vscode from 'vscode';
+import { BundledCatalogSource } from '../catalogSources';
+import { MockZenServer } from './support/mockZenServer';
+
+const SNAPSHOT_SCRIPT = path.resolve(__dirname, '../../scripts/update-catalog-snapshot.mjs');
+
+const server = new MockZenServer();
+let extensionDir: string;
+
+describe('BundledCatalogSource', () => {
+	before(async () => {
+		await server.start();
+		server.setCatalog({
+			opencode: { id: 'opencode', name: 'OpenCode Zen', models: { 'mock-model': { id: 'mock-model', name: 'Mock Model' } } },
+			'other-provider': { id: 'other-provider', models: {} },
+		});
+		extensionDir = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-bundled-'));
+		await mkdir(path.join(extensionDir, 'assets'));
+	});
+
+	after(async () => {
+		await server.stop();
+		await rm(extensionDir, { recursive: true, force: true });
+	});
+
+	it('loads the snapshot written by the update-catalog script', async () => {
+		const snapshotFile = path.join(extensionDir, 'assets', 'models-catalog.json');
+		await promisify(execFile)(process.execPath, [SNAPSHOT_SCRIPT, `${server.origin}/api.json`, snapshotFile]);
+
+		const catalog = await new BundledCatalogSource(vscode.Uri.file(extensionDir)).load();
+
+		assert.deepEqual(Object.keys(catalog), ['opencode']);
+		assert.equal(catalog.opencode.models['mock-model'].name, 'Mock Model');
+	});
+
+	it('reports a build without a snapshot', async () => {
+		const emptyDir = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-unbundled-'));
+		try {
+			await assert.rejects(new BundledCatalogSource(vscode.Uri.file(emptyDir)).load(), /No bundled model catalog snapshot/);
+		} finally {
+			await rm(emptyDir, { recursive: true, force: true });
+		}
+	});
+});
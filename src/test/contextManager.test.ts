@@ -0,0 +1,180 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type * as vscode from 'vscode';
+import { ContextManager, type Summarizer } from '../contextManager';
+import type { TokenCounter } from '../tokenCounter';
+import { outputLog, resetConfiguration, setConfiguration } from './support/vscode';
+
+/**
+ * One token per character keeps the budgets below easy to follow. Messages add 4 tokens and
+ * tool parts 8, as in the real counter.
+ */
+const charCounter = { count: (_model: unknown, text: string) => text.length, countData: () => 0 } as unknown as TokenCounter;
+
+function model(maxInputTokens: number): vscode.LanguageModelChatInformation {
+	return { id: 'mock-model', family: 'mock', name: 'Mock', version: '1', maxInputTokens, maxOutputTokens: 1_000 } as vscode.LanguageModelChatInformation;
+}
+
+const system = (text: string) => ({ role: 'system', content: text });
+const user = (text: string) => ({ role: 'user', content: [{ type: 'text', text }] });
+const assistant = (text: string) => ({ role: 'assistant', content: [{ type: 'text', text }] });
+const toolCall = (toolCallId: string) => ({
+	role: 'assistant',
+	content: [{ type: 'tool-call', toolCallId, toolName: 'read_file', input: {} }],
+});
+const toolResult = (toolCallId: string, value: string) => ({
+	role: 'tool',
+	content: [{ type: 'tool-result', toolCallId, toolName: 'read_file', output: { type: 'text', value } }],
+});
+
+const noSummary: Summarizer = async () => assert.fail('The summarizer should not run');
+
+function configure(strategy: string, preserveRecentMessages: number, extra: Record<string, unknown> = {}): void {
+	setConfiguration({
+		'opencodeZen.contextManagement.enabled': true,
+		'opencodeZen.contextManagement.strategy': strategy,
+		'opencodeZen.contextManagement.threshold': 1,
+		'opencodeZen.contextManagement.preserveRecentMessages': preserveRecentMessages,
+		...extra,
+	});
+}
+
+function fit(manager: ContextManager, maxInputTokens: number, messages: any[], summarize: Summarizer = noSummary): Promise<any[]> {
+	return manager.fit(model(maxInputTokens), messages, { summarize, abortSignal: new AbortController().signal });
+}
+
+const roles = (messages: any[]) => messages.map((message) => message.role);
+const texts = (message: any) => message.content.map((part: any) => part.text);
+
+describe('ContextManager', () => {
+	let manager: ContextManager;
+
+	beforeEach(() => {
+		manager = new ContextManager(charCounter);
+		outputLog.length = 0;
+	});
+
+	afterEach(() => resetConfiguration());
+
+	it('leaves conversations that fit alone', async () => {
+		configure('dropOldest', 2);
+		const messages = [user('hello'), assistant('hi')];
+		assert.equal(await fit(manager, 100, messages), messages);
+	});
+
+	describe('dropOldest', () => {
+		it('drops a tool call together with its results and merges the note into the next user message', async () => {
+			configure('dropOldest', 2);
+			// 5 + 104 + (23 + 112) + 14 + 14 = 272 tokens. Dropping the first message leaves 168.
+			const messages = [
+				system('S'),
+				user('a'.repeat(100)),
+				toolCall('call_1'),
+				toolResult('call_1', 'r'.repeat(100)),
+				user('b'.repeat(10)),
+				assistant('c'.repeat(10)),
+			];
+
+			const fitted = await fit(manager, 160, messages);
+
+			assert.deepEqual(roles(fitted), ['system', 'user', 'assistant']);
+			assert.deepEqual(texts(fitted[1]), ['[3 earlier message(s) were removed to fit the context window.]', 'b'.repeat(10)]);
+		});
+
+		it('never drops the preserved recent messages', async () => {
+			configure('dropOldest', 3);
+			const messages = ['u1', 'a1', 'u2', 'a2', 'u3'].map((id) => (id.startsWith('u') ? user : assistant)(id.repeat(50)));
+
+			const fitted = await fit(manager, 100, messages);
+
+			assert.deepEqual(roles(fitted), ['user', 'assistant', 'user']);
+			assert.deepEqual(texts(fitted[0]), ['[2 earlier message(s) were removed to fit the context window.]', 'u2'.repeat(50)]);
+			assert.deepEqual(fitted.slice(1), messages.slice(3));
+			assert.ok(outputLog.some((line) => line.startsWith('[warn] Context for mock-model is still')));
+		});
+
+		it('adds the note to the last system message when an assistant turn comes next', async () => {
+			configure('dropOldest', 2);
+			const messages = [system('S'), user('a'.repeat(100)), assistant('b'.repeat(10)), user('c'.repeat(10))];
+
+			const fitted = await fit(manager, 50, messages);
+
+			assert.deepEqual(roles(fitted), ['system', 'assistant', 'user']);
+			assert.equal(fitted[0].content, 'S\n\n[1 earlier message(s) were removed to fit the context window.]');
+		});
+	});
+
+	describe('truncateToolResults', () => {
+		it('keeps the head and tail of an oversized tool result', async () => {
+			configure('truncateToolResults', 2, { 'opencodeZen.contextManagement.toolResultMaxTokens': 100 });
+			const output = `${'H'.repeat(200)}${'M'.repeat(200)}${'T'.repeat(200)}`;
+			const later = 'x'.repeat(150);
+			const messages = [
+				user('read it'),
+				toolCall('call_1'),
+				toolResult('call_1', output),
+				toolCall('call_2'),
+				toolResult('call_2', later),
+				user('thanks'),
+			];
+
+			const fitted = await fit(manager, 500, messages);
+
+			assert.equal(
+				fitted[2].content[0].output.value,
+				`${'H'.repeat(50)}\n\n[... ~500 tokens elided to fit the context window ...]\n\n${'T'.repeat(50)}`
+			);
+			// Oldest first: the later result is over the limit too but the conversation already fits.
+			assert.equal(fitted[4].content[0].output.value, later);
+			assert.equal(fitted.length, messages.length);
+		});
+	});
+
+	describe('summarize', () => {
+		// 5 + 4 * 1004 + 14 + 14 = 4049 tokens; only a summary of the four long messages fits in 3000.
+		const history = [
+			system('S'),
+			user('1'.repeat(1_000)),
+			assistant('2'.repeat(1_000)),
+			user('3'.repeat(1_000)),
+			assistant('4'.repeat(1_000)),
+			user('5'.repeat(10)),
+			assistant('6'.repeat(10)),
+		];
+
+		it('summarizes the oldest messages and reuses the summary on the next turn', async () => {
+			configure('summarize', 2);
+			const transcripts: string[] = [];
+			const summarize: Summarizer = async (transcript) => {
+				transcripts.push(transcript);
+				return 'Short summary.';
+			};
+
+			const first = await fit(manager, 3_000, history, summarize);
+			const second = await fit(manager, 3_000, [...history, user('7'.repeat(10)), assistant('8'.repeat(10))], summarize);
+
+			assert.equal(transcripts.length, 1);
+			assert.ok(transcripts[0].startsWith(`User: ${'1'.repeat(1_000)}\n\nAssistant: ${'2'.repeat(1_000)}`));
+			const note = '[Summary of 4 earlier message(s), condensed to fit the context window]\n\nShort summary.';
+			assert.deepEqual(roles(first), ['system', 'user', 'assistant']);
+			assert.deepEqual(texts(first[1]), [note, '5'.repeat(10)]);
+			assert.deepEqual(roles(second), ['system', 'user', 'assistant', 'user', 'assistant']);
+			assert.deepEqual(texts(second[1]), [note, '5'.repeat(10)]);
+		});
+
+		for (const [label, summarize] of [
+			['throws', async () => Promise.reject(new Error('summary model unavailable'))],
+			['returns no text', async () => '  '],
+		] as Array<[string, Summarizer]>) {
+			it(`drops the oldest messages instead when the summarizer ${label}`, async () => {
+				configure('summarize', 2);
+
+				const fitted = await fit(manager, 3_000, history, summarize);
+
+				assert.deepEqual(roles(fitted), ['system', 'user', 'assistant', 'user', 'assistant']);
+				assert.deepEqual(texts(fitted[1]), ['[2 earlier message(s) were removed to fit the context window.]', '3'.repeat(1_000)]);
+				assert.ok(outputLog.some((line) => line.startsWith('[warn] Summarizing older messages failed')));
+			});
+		}
+	});
+});
@@ -0,0 +1,74 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import * as assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveCredential } from '../credentials';
+import { DEFAULT_PROFILE, setApiKey } from '../secrets';
+import { createExtensionContext } from './support/extensionContext';
+import { resetConfiguration, setConfiguration } from './support/vscode';
+
+const ENV_VAR = 'OPENCODE_ZEN_TEST_API_KEY';
+
+describe('resolveCredential', () => {
+	let storageDir: string;
+	let authFile: string;
+
+	before(async () => {
+		storageDir = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-credentials-'));
+		authFile = path.join(storageDir, 'auth.json');
+		await writeFile(authFile, JSON.stringify({ opencode: { type: 'api', key: 'cli-key' } }));
+	});
+
+	afterEach(() => {
+		delete process.env[ENV_VAR];
+		resetConfiguration();
+	});
+
+	after(async () => {
+		await rm(storageDir, { recursive: true, force: true, maxRetries: 5 });
+	});
+
+	function configure(sources: string[]): void {
+		setConfiguration({
+			'opencodeZen.credentials.sources': sources,
+			'opencodeZen.credentials.environmentVariable': ENV_VAR,
+			'opencodeZen.credentials.opencodeAuthFile': authFile,
+		});
+	}
+
+	it('falls back to the environment and the opencode CLI auth file for the default profile', async () => {
+		const { secrets } = createExtensionContext(storageDir);
+		process.env[ENV_VAR] = ' env-key ';
+
+		configure(['secretStorage', 'environment', 'opencodeCli']);
+		assert.equal((await resolveCredential(secrets, DEFAULT_PROFILE))?.apiKey, 'env-key');
+
+		configure(['opencodeCli', 'environment']);
+		const credential = await resolveCredential(secrets, DEFAULT_PROFILE);
+		assert.equal(credential?.apiKey, 'cli-key');
+		assert.equal(credential?.source, 'opencodeCli');
+	});
+
+	it('prefers the stored key of the default profile', async () => {
+		const { secrets } = createExtensionContext(storageDir);
+		await setApiKey(secrets, 'stored-key', DEFAULT_PROFILE);
+		process.env[ENV_VAR] = 'env-key';
+		configure(['secretStorage', 'environment', 'opencodeCli']);
+
+		assert.equal((await resolveCredential(secrets, DEFAULT_PROFILE))?.source, 'secretStorage');
+	});
+
+	it('only uses the stored key of a named profile', async () => {
+		const { secrets } = createExtensionContext(storageDir);
+		process.env[ENV_VAR] = 'env-key';
+		configure(['environment', 'opencodeCli', 'secretStorage']);
+
+		assert.equal(await resolveCredential(secrets, 'work'), undefined);
+
+		await setApiKey(secrets, 'work-key', 'work');
+		const credential = await resolveCredential(secrets, 'work');
+		assert.equal(credential?.apiKey, 'work-key');
+		assert.equal(credential?.description, 'SecretStorage (profile "work")');
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	classifyApiError,
+	ContextLengthExceededError,
+	ModelNotFoundError,
+	NetworkError,
+	ProviderOutageError,
+	QuotaExhaustedError,
+	RateLimitError,
+	ZenApiError,
+} from '../errors';
+
+function classify(statusCode: number, error: Record<string, unknown>): ZenApiError {
+	return classifyApiError(new Error('Request failed'), { statusCode, responseBody: JSON.stringify({ error }) });
+}
+
+describe('classifyApiError', () => {
+	it('treats a tokens-per-minute 429 as a retryable rate limit', () => {
+		const err = classify(429, { message: 'Too many tokens per minute. Please retry after 20 seconds.' });
+		assert.ok(err instanceof RateLimitError);
+		assert.equal(err.retryable, true);
+	});
+
+	it('recognizes rate limit wording without a status code', () => {
+		const err = classifyApiError(new Error('Rate limit reached for requests per minute'));
+		assert.ok(err instanceof RateLimitError);
+	});
+
+	it('keeps an insufficient_quota 429 as quota exhausted', () => {
+		const err = classify(429, { code: 'insufficient_quota', message: 'You exceeded your current quota.' });
+		assert.ok(err instanceof QuotaExhaustedError);
+		assert.equal(err.retryable, false);
+	});
+
+	it('classifies context window errors', () => {
+		const err = classify(400, { message: 'prompt is too long: 210000 tokens > 200000 maximum' });
+		assert.ok(err instanceof ContextLengthExceededError);
+	});
+
+	it('only reports a missing model for model-not-found wording or a 404', () => {
+		assert.ok(classify(400, { message: 'The model `gpt-9` does not exist.' }) instanceof ModelNotFoundError);
+		assert.ok(classify(404, { message: 'Not Found' }) instanceof ModelNotFoundError);
+
+		const err = classify(400, { message: 'Tool result for call_1 not found in the conversation.' });
+		assert.equal(err instanceof ModelNotFoundError, false);
+	});
+
+	it('retries and falls back on network failures anywhere in the cause chain', () => {
+		const dnsFailure = classifyApiError(new Error('Request failed', { cause: Object.assign(new Error('getaddrinfo ENOTFOUND opencode.ai'), { code: 'ENOTFOUND' }) }));
+		assert.ok(dnsFailure instanceof NetworkError);
+		assert.equal(dnsFailure.retryable, true);
+		assert.equal(dnsFailure.fallbackEligible, true);
+
+		const fetchFailed = classifyApiError(new TypeError('fetch failed', { cause: Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' }) }));
+		assert.ok(fetchFailed instanceof NetworkError);
+	});
+
+	it('treats request timeouts, overloaded providers and upstream failures as outages', () => {
+		for (const err of [
+			classify(408, { message: 'Request Timeout' }),
+			classify(529, { type: 'overloaded_error', message: 'Overloaded' }),
+			classify(400, { message: 'No available provider for this model' }),
+			classify(400, { message: 'Upstream request failed' }),
+			classifyApiError(new Error('Provider error: connection closed')),
+		]) {
+			assert.ok(err instanceof ProviderOutageError, err.message);
+			assert.equal(err.retryable, true);
+			assert.equal(err.fallbackEligible, true);
+		}
+	});
+
+	it('neither retries nor falls back on authentication, quota or invalid request errors', () => {
+		for (const err of [
+			classify(401, { message: 'Invalid API key' }),
+			classify(402, { message: 'Insufficient balance' }),
+			classify(400, { message: 'messages: field required' }),
+		]) {
+			assert.equal(err.retryable, false, err.message);
+			assert.equal(err.fallbackEligible, false, err.message);
+		}
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { getFallbackChain, shouldFallback } from '../fallbacks';
+import { resetConfiguration, setConfiguration } from './support/vscode';
+
+describe('getFallbackChain', () => {
+	afterEach(() => resetConfiguration());
+
+	it('uses the first key that matches, in settings order', () => {
+		setConfiguration({
+			'opencodeZen.fallbacks': {
+				'claude-*': ['claude-sonnet-4-5', 'gpt-5'],
+				'claude-opus-*': ['claude-opus-4-1'],
+			},
+		});
+
+		assert.deepEqual(getFallbackChain('claude-opus-4-5'), ['claude-sonnet-4-5', 'gpt-5']);
+	});
+
+	it('prefers an exact id listed before a broader glob', () => {
+		setConfiguration({
+			'opencodeZen.fallbacks': {
+				'claude-opus-4-5': ['claude-opus-4-1'],
+				'claude-*': ['gpt-5'],
+			},
+		});
+
+		assert.deepEqual(getFallbackChain('claude-opus-4-5'), ['claude-opus-4-1']);
+		assert.deepEqual(getFallbackChain('claude-haiku-4-5'), ['gpt-5']);
+	});
+
+	it('never lists a model as its own fallback', () => {
+		setConfiguration({ 'opencodeZen.fallbacks': { 'gpt-5*': ['gpt-5', 'gpt-5-mini', 'gpt-5-nano'] } });
+
+		assert.deepEqual(getFallbackChain('gpt-5'), ['gpt-5-mini', 'gpt-5-nano']);
+		assert.deepEqual(getFallbackChain('gpt-5-mini'), ['gpt-5', 'gpt-5-nano']);
+	});
+
+	it('skips malformed entries', () => {
+		setConfiguration({ 'opencodeZen.fallbacks': { 'gpt-*': 'gpt-5-mini', '*': ['qwen3-coder', 42] } });
+
+		assert.deepEqual(getFallbackChain('gpt-5'), ['qwen3-coder']);
+	});
+
+	it('returns no fallbacks when nothing matches or nothing is configured', () => {
+		assert.deepEqual(getFallbackChain('gpt-5'), []);
+
+		setConfiguration({ 'opencodeZen.fallbacks': { 'claude-*': ['gpt-5'] } });
+		assert.deepEqual(getFallbackChain('gemini-3-pro'), []);
+	});
+});
+
+describe('shouldFallback', () => {
+	it('falls back when the classified error is fallback eligible', () => {
+		assert.equal(shouldFallback(Object.assign(new Error('Not Found'), { statusCode: 404 })), true);
+		assert.equal(shouldFallback(new Error('Upstream provider error')), true);
+		assert.equal(shouldFallback(Object.assign(new Error('Unauthorized'), { statusCode: 401 })), false);
+		assert.equal(shouldFallback(new Error('Something unexpected')), false);
+	});
+});
@@ -0,0 +1,105 @@
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { buildToolNameMap, messagesToAiSdkMessages } from '../messageConversion';
+
+/**
+ * Golden tests for the VS Code → AI SDK message conversion. Each fixture lists VS Code messages in
+ * a JSON form and the AI SDK messages they must convert to. Run `UPDATE_GOLDEN=1 npm test` to
+ * rewrite the expected output after an intended change, then review the fixture diff.
+ */
+
+type FixturePart =
+	| { text: string }
+	| { toolCall: { callId: string; name: string; input: object } }
+	| { toolResult: { callId: string; content: FixturePart[] } }
+	| { data: { mimeType: string; text?: string; base64?: string } }
+	| { promptTsx: unknown }
+	| { unknown: unknown };
+
+type Fixture = {
+	description: string;
+	/** Provider package, which decides whether tool names are sanitized. */
+	providerNpm?: string;
+	/** Names of the tools declared in the request. */
+	tools?: string[];
+	messages: Array<{ role: 'user' | 'assistant' | 'system'; content: FixturePart[] }>;
+	expected: unknown;
+};
+
+const FIXTURE_DIR = path.resolve(__dirname, '../../src/test/fixtures/messageConversion');
+
+function toPart(part: FixturePart): unknown {
+	if ('text' in part) {
+		return new vscode.LanguageModelTextPart(part.text);
+	}
+	if ('toolCall' in part) {
+		return new vscode.LanguageModelToolCallPart(part.toolCall.callId, part.toolCall.name, part.toolCall.input);
+	}
+	if ('toolResult' in part) {
+		return new vscode.LanguageModelToolResultPart(part.toolResult.callId, part.toolResult.content.map(toPart) as any[]);
+	}
+	if ('data' in part) {
+		const { mimeType, text, base64 } = part.data;
+		const data = text !== undefined ? new TextEncoder().encode(text) : Buffer.from(base64 ?? '', 'base64');
+		return new vscode.LanguageModelDataPart(data, mimeType);
+	}
+	if ('promptTsx' in part) {
+		return new vscode.LanguageModelPromptTsxPart(part.promptTsx);
+	}
+	return part.unknown;
+}
+
+const ROLES: Record<Fixture['messages'][number]['role'], number> = {
+	user: vscode.LanguageModelChatMessageRole.User,
+	assistant: vscode.LanguageModelChatMessageRole.Assistant,
+	// The proposed `LanguageModelChatMessageRole.System`.
+	system: 3,
+};
+
+function toMessage(message: Fixture['messages'][number]): vscode.LanguageModelChatRequestMessage {
+	return {
+		role: ROLES[message.role],
+		content: message.content.map(toPart) as vscode.LanguageModelChatRequestMessage['content'],
+		name: undefined,
+	};
+}
+
+/** Makes the converted messages comparable with JSON: binary data becomes `{ base64 }`. */
+function normalize(value: unknown): unknown {
+	if (value instanceof Uint8Array) {
+		return { base64: Buffer.from(value).toString('base64') };
+	}
+	if (Array.isArray(value)) {
+		return value.map(normalize);
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([, entry]) => entry !== undefined)
+				.map(([key, entry]) => [key, normalize(entry)])
+		);
+	}
+	return value;
+}
+
+describe('message conversion golden fixtures', () => {
+	for (const file of readdirSync(FIXTURE_DIR).filter((name) => name.endsWith('.json'))) {
+		const fixturePath = path.join(FIXTURE_DIR, file);
+		const fixture = JSON.parse(readFileSync(fixturePath, 'utf8')) as Fixture;
+
+		it(`${file}: ${fixture.description}`, () => {
+			const tools = (fixture.tools ?? []).map((name) => ({ name, description: name }));
+			const { toProvider } = buildToolNameMap(tools, fixture.providerNpm);
+			const actual = normalize(messagesToAiSdkMessages(fixture.messages.map(toMessage), toProvider));
+
+			if (process.env.UPDATE_GOLDEN) {
+				writeFileSync(fixturePath, `${JSON.stringify({ ...fixture, expected: actual }, null, '\t')}\n`);
+				return;
+			}
+			assert.deepEqual(actual, fixture.expected);
+		});
+	}
+});
@@ -0,0 +1,427 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import * as assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BudgetTracker } from '../budget';
+import { ProfileManager } from '../profiles';
+import { OpenCodeZenChatProvider } from '../provider';
+import { UsageLedger, type UsageEntry } from '../usageLedger';
+import { createExtensionContext } from './support/extensionContext';
+import { MockZenServer, SCENARIOS, type RecordedRequest } from './support/mockZenServer';
+import { outputLog, resetConfiguration, setConfiguration } from './support/vscode';
+
+const MODELS = {
+	'@ai-sdk/openai-compatible': 'mock-compat',
+	'@ai-sdk/anthropic': 'mock-claude',
+	'@ai-sdk/openai': 'mock-gpt',
+	'@ai-sdk/google': 'mock-gemini',
+} as const;
+
+type Npm = keyof typeof MODELS;
+
+const VS_CODE_TOOL_NAME = 'mcp.server/read file';
+const SANITIZED_TOOL_NAME = 'mcp_server_read_file';
+
+function buildCatalog(api: string) {
+	const model = (id: string, npm: Npm) => ({
+		id,
+		name: id,
+		family: 'mock',
+		attachment: true,
+		reasoning: true,
+		tool_call: true,
+		temperature: true,
+		cost: { input: 1, output: 2, cache_read: 0.1 },
+		limit: { context: 200_000, output: 32_000 },
+		provider: { npm },
+	});
+	return {
+		opencode: {
+			id: 'opencode',
+			name: 'OpenCode Zen',
+			env: ['OPENCODE_API_KEY'],
+			npm: '@ai-sdk/openai-compatible',
+			api,
+			doc: 'https://opencode.ai/docs/zen',
+			models: Object.fromEntries(Object.entries(MODELS).map(([npm, id]) => [id, model(id, npm as Npm)])),
+		},
+	};
+}
+
+const server = new MockZenServer();
+const token = new vscode.CancellationTokenSource().token;
+let storageDir: string;
+let context: vscode.ExtensionContext;
+let ledger: UsageLedger;
+let provider: OpenCodeZenChatProvider;
+
+async function chat(
+	npm: Npm,
+	messages: vscode.LanguageModelChatRequestMessage[],
+	options: Partial<vscode.ProvideLanguageModelChatResponseOptions> = {}
+): Promise<vscode.LanguageModelResponsePart[]> {
+	const models = (await provider.provideLanguageModelChatInformation({ silent: true }, token)) ?? [];
+	const model = models.find((candidate) => candidate.id === MODELS[npm]);
+	assert.ok(model, `${MODELS[npm]} is missing from the model list`);
+
+	const parts: vscode.LanguageModelResponsePart[] = [];
+	await provider.provideLanguageModelChatResponse(
+		model,
+		messages,
+		{ modelOptions: {}, toolMode: vscode.LanguageModelChatToolMode.Auto, ...options } as vscode.ProvideLanguageModelChatResponseOptions,
+		{ report: (part) => parts.push(part) },
+		token
+	);
+	return parts;
+}
+
+function user(...content: vscode.LanguageModelChatRequestMessage['content']): vscode.LanguageModelChatRequestMessage {
+	return { role: vscode.LanguageModelChatMessageRole.User, content, name: undefined };
+}
+
+function assistant(...content: vscode.LanguageModelChatRequestMessage['content']): vscode.LanguageModelChatRequestMessage {
+	return { role: vscode.LanguageModelChatMessageRole.Assistant, content, name: undefined };
+}
+
+/** `LanguageModelChatMessageRole.System` is still a proposed API, so the stand-in has no member for it. */
+function system(...content: vscode.LanguageModelChatRequestMessage['content']): vscode.LanguageModelChatRequestMessage {
+	return { role: 3 as vscode.LanguageModelChatMessageRole, content, name: undefined };
+}
+
+function text(parts: readonly vscode.LanguageModelResponsePart[]): string {
+	return parts
+		.filter((part): part is vscode.LanguageModelTextPart => part instanceof vscode.LanguageModelTextPart)
+		.map((part) => part.value)
+		.join('');
+}
+
+const readFileTool: vscode.LanguageModelChatTool = {
+	name: VS_CODE_TOOL_NAME,
+	description: 'Reads a file from the workspace',
+	inputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+};
+
+/** Tool names declared in the request, per wire format. */
+function declaredToolNames(npm: Npm, request: RecordedRequest): string[] {
+	const tools: any[] = request.body.tools ?? [];
+	if (npm === '@ai-sdk/openai-compatible') {
+		return tools.map((tool) => tool.function.name);
+	}
+	if (npm === '@ai-sdk/google') {
+		return tools.flatMap((tool) => tool.functionDeclarations.map((declaration: any) => declaration.name));
+	}
+	return tools.map((tool) => tool.name);
+}
+
+describe('OpenCodeZenChatProvider against the mock Zen server', () => {
+	before(async () => {
+		await server.start();
+		server.setCatalog(buildCatalog(server.baseUrl));
+		storageDir = await mkdtemp(path.join(os.tmpdir(), 'opencode-zen-test-'));
+		setConfiguration({
+			'opencodeZen.catalog.sources': ['url'],
+			'opencodeZen.catalog.url': `${server.origin}/api.json`,
+			'opencodeZen.retry.maxAttempts': 1,
+		});
+
+		context = createExtensionContext(storageDir);
+		ledger = new UsageLedger(context);
+		const profiles = new ProfileManager(context);
+		await profiles.setApiKey('default', 'test-key');
+		provider = new OpenCodeZenChatProvider(context, ledger, new BudgetTracker(ledger), profiles);
+	});
+
+	after(async () => {
+		await server.stop();
+		resetConfiguration();
+		await rm(storageDir, { recursive: true, force: true, maxRetries: 5 });
+	});
+
+	beforeEach(() => server.reset());
+
+	for (const npm of Object.keys(MODELS) as Npm[]) {
+		describe(npm, () => {
+			it('streams the answer and sends the OpenCode request headers', async () => {
+				const parts = await chat(npm, [user(new vscode.LanguageModelTextPart('Hi'))]);
+				assert.equal(text(parts), 'Hello from the mock.');
+
+				const { headers } = server.lastChatRequest();
+				const sessionId = context.workspaceState.get<string>('opencodeZen.requestSessionId');
+				assert.ok(sessionId);
+				assert.equal(headers['x-opencode-session'], sessionId);
+				assert.equal(headers['x-opencode-project'], 'test-workspace');
+				assert.equal(headers['x-opencode-client'], 'vscode-opencode-zen/0.0.0-test');
+				assert.match(String(headers['x-opencode-request']), /^[0-9a-f-]{36}$/);
+			});
+
+			it('sends the workspace cache key where the wire format has one', async () => {
+				await chat(npm, [user(new vscode.LanguageModelTextPart('Hi'))]);
+				const { body } = server.lastChatRequest();
+				const sessionId = context.workspaceState.get<string>('opencodeZen.requestSessionId');
+				if (npm === '@ai-sdk/openai-compatible' || npm === '@ai-sdk/openai') {
+					assert.equal(body.prompt_cache_key, sessionId);
+				} else {
+					assert.equal(body.prompt_cache_key, undefined);
+				}
+			});
+
+			it('declares sanitized tool names and reports calls under the VS Code name', async () => {
+				const wireName = npm === '@ai-sdk/google' ? VS_CODE_TOOL_NAME : SANITIZED_TOOL_NAME;
+				server.enqueue({ toolCalls: [{ id: 'call_1', name: wireName, input: { path: 'README.md' } }] });
+				const parts = await chat(npm, [user(new vscode.LanguageModelTextPart('Read the README'))], { tools: [readFileTool] });
+
+				assert.deepEqual(declaredToolNames(npm, server.lastChatRequest()), [wireName]);
+				const calls = parts.filter((part): part is vscode.LanguageModelToolCallPart => part instanceof vscode.LanguageModelToolCallPart);
+				assert.equal(calls.length, 1);
+				assert.equal(calls[0].name, VS_CODE_TOOL_NAME);
+				assert.deepEqual(calls[0].input, { path: 'README.md' });
+			});
+
+			it('records usage in the ledger', async () => {
+				const recorded: UsageEntry[] = [];
+				const subscription = ledger.onDidRecord((entry) => recorded.push(entry));
+				try {
+					await chat(npm, [user(new vscode.LanguageModelTextPart('Hi'))]);
+				} finally {
+					subscription.dispose();
+				}
+				assert.equal(recorded.length, 1);
+				assert.equal(recorded[0].modelId, MODELS[npm]);
+				assert.equal(recorded[0].outputTokens, 30);
+				assert.equal(recorded[0].profile, 'default');
+			});
+		});
+	}
+
+	it('marks the last two messages with Anthropic cache_control', async () => {
+		await chat('@ai-sdk/anthropic', [
+			user(new vscode.LanguageModelTextPart('First question')),
+			assistant(new vscode.LanguageModelTextPart('First answer')),
+			user(new vscode.LanguageModelTextPart('Second question')),
+		]);
+		const messages: any[] = server.lastChatRequest().body.messages;
+		const cacheControl = (message: any) => message.content.at(-1).cache_control;
+
+		assert.equal(messages.length, 3);
+		assert.equal(cacheControl(messages[0]), undefined);
+		assert.deepEqual(cacheControl(messages[1]), { type: 'ephemeral', ttl: '5m' });
+		assert.deepEqual(cacheControl(messages[2]), { type: 'ephemeral', ttl: '5m' });
+	});
+
+	it('marks the last two messages with OpenAI-compatible cache_control', async () => {
+		await chat('@ai-sdk/openai-compatible', [
+			user(new vscode.LanguageModelTextPart('First question')),
+			assistant(new vscode.LanguageModelTextPart('First answer')),
+			user(new vscode.LanguageModelTextPart('Second question')),
+		]);
+		const messages: any[] = server.lastChatRequest().body.messages;
+
+		assert.equal(messages[0].cache_control, undefined);
+		assert.deepEqual(messages[1].cache_control, { type: 'ephemeral' });
+		assert.deepEqual(messages[2].cache_control, { type: 'ephemeral' });
+	});
+
+	describe('system messages and workspace instructions', () => {
+		const conversation = () => [
+			system(new vscode.LanguageModelTextPart('You are helpful.')),
+			user(new vscode.LanguageModelTextPart('First question')),
+			assistant(new vscode.LanguageModelTextPart('First answer')),
+			system(new vscode.LanguageModelTextPart('Be brief.')),
+			user(new vscode.LanguageModelTextPart('Second question')),
+		];
+
+		before(async () => {
+			const instructionsFile = path.join(storageDir, 'instructions.md');
+			await writeFile(instructionsFile, 'Follow the house style.\n');
+			setConfiguration({ 'opencodeZen.instructions.enabled': true, 'opencodeZen.instructions.file': instructionsFile });
+		});
+
+		after(() => setConfiguration({ 'opencodeZen.instructions.enabled': undefined, 'opencodeZen.instructions.file': undefined }));
+
+		it('sends them in the Anthropic system field, instructions first and cached', async () => {
+			await chat('@ai-sdk/anthropic', conversation());
+			const { body } = server.lastChatRequest();
+
+			assert.deepEqual(
+				body.system.map((block: any) => block.text),
+				['Follow the house style.', 'You are helpful.', 'Be brief.']
+			);
+			assert.deepEqual(body.system[0].cache_control, { type: 'ephemeral', ttl: '5m' });
+			assert.deepEqual(
+				body.messages.map((message: any) => message.role),
+				['user', 'assistant', 'user']
+			);
+		});
+
+		it('sends them as the Gemini systemInstruction', async () => {
+			await chat('@ai-sdk/google', conversation());
+			const { body } = server.lastChatRequest();
+
+			assert.deepEqual(
+				body.systemInstruction.parts.map((part: any) => part.text),
+				['Follow the house style.', 'You are helpful.', 'Be brief.']
+			);
+			assert.deepEqual(
+				body.contents.map((content: any) => content.role),
+				['user', 'model', 'user']
+			);
+		});
+
+		it('keeps them in place for OpenAI-compatible models', async () => {
+			await chat('@ai-sdk/openai-compatible', conversation());
+			const messages: any[] = server.lastChatRequest().body.messages;
+
+			assert.deepEqual(
+				messages.map((message) => message.role),
+				['system', 'system', 'user', 'assistant', 'system', 'user']
+			);
+			assert.equal(messages[0].content, 'Follow the house style.');
+			assert.deepEqual(messages[0].cache_control, { type: 'ephemeral' });
+		});
+	});
+
+	describe('prompt cache key scopes', () => {
+		after(() => setConfiguration({ 'opencodeZen.promptCaching.cacheKeyScope': undefined }));
+
+		const sentKey = async (messages: vscode.LanguageModelChatRequestMessage[]) => {
+			await chat('@ai-sdk/openai-compatible', messages);
+			const { body, headers } = server.lastChatRequest();
+			assert.equal(headers['x-opencode-session'], body.prompt_cache_key);
+			return body.prompt_cache_key as string;
+		};
+
+		it('keeps the global key in global state', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.cacheKeyScope': 'global' });
+			const key = await sentKey([user(new vscode.LanguageModelTextPart('Hi'))]);
+
+			assert.equal(key, context.globalState.get('opencodeZen.requestSessionId'));
+			assert.notEqual(key, context.workspaceState.get('opencodeZen.requestSessionId'));
+		});
+
+		it('derives a stable key per conversation', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.cacheKeyScope': 'conversation' });
+			const opening = [system(new vscode.LanguageModelTextPart('You are helpful.')), user(new vscode.LanguageModelTextPart('First question'))];
+
+			const firstTurn = await sentKey(opening);
+			const secondTurn = await sentKey([
+				...opening,
+				assistant(new vscode.LanguageModelTextPart('First answer')),
+				user(new vscode.LanguageModelTextPart('Second question')),
+			]);
+			const otherChat = await sentKey([opening[0], user(new vscode.LanguageModelTextPart('Another question'))]);
+
+			assert.match(firstTurn, /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+			assert.equal(secondTurn, firstTurn);
+			assert.notEqual(otherChat, firstTurn);
+		});
+
+		it('sends no cache key but keeps the workspace session for none', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.cacheKeyScope': 'none' });
+			await chat('@ai-sdk/openai-compatible', [user(new vscode.LanguageModelTextPart('Hi'))]);
+			const { body, headers } = server.lastChatRequest();
+
+			assert.equal(body.prompt_cache_key, undefined);
+			assert.equal(headers['x-opencode-session'], context.workspaceState.get('opencodeZen.requestSessionId'));
+		});
+	});
+
+	describe('cache breakpoint strategies', () => {
+		after(() =>
+			setConfiguration({ 'opencodeZen.promptCaching.breakpointStrategy': undefined, 'opencodeZen.promptCaching.breakpointCount': undefined })
+		);
+
+		const conversation = () => [
+			system(new vscode.LanguageModelTextPart('You are helpful.')),
+			user(new vscode.LanguageModelTextPart('First question')),
+			assistant(new vscode.LanguageModelTextPart('First answer')),
+			user(new vscode.LanguageModelTextPart('Second question')),
+		];
+		const anthropicMarks = (messages: any[]) => messages.map((message) => message.content.at(-1).cache_control !== undefined);
+
+		it('marks the tool definitions, the system prompt and the last messages with tools+system+last', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.breakpointStrategy': 'tools+system+last' });
+			await chat('@ai-sdk/anthropic', conversation(), { tools: [readFileTool] });
+			const { body } = server.lastChatRequest();
+
+			assert.deepEqual(body.tools.at(-1).cache_control, { type: 'ephemeral', ttl: '5m' });
+			assert.deepEqual(body.system.at(-1).cache_control, { type: 'ephemeral', ttl: '5m' });
+			assert.deepEqual(anthropicMarks(body.messages), [false, true, true]);
+		});
+
+		it('marks the last tool definition on OpenAI-compatible requests', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.breakpointStrategy': 'tools+system+last' });
+			await chat('@ai-sdk/openai-compatible', conversation(), { tools: [readFileTool] });
+			const { body } = server.lastChatRequest();
+
+			assert.deepEqual(body.tools.at(-1).cache_control, { type: 'ephemeral' });
+			assert.deepEqual(
+				body.messages.map((message: any) => message.cache_control !== undefined),
+				[true, false, true, true]
+			);
+		});
+
+		it('marks only the last n messages with rolling-last-n', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.breakpointStrategy': 'rolling-last-n', 'opencodeZen.promptCaching.breakpointCount': 2 });
+			await chat('@ai-sdk/anthropic', conversation(), { tools: [readFileTool] });
+			const { body } = server.lastChatRequest();
+
+			assert.equal(body.tools.at(-1).cache_control, undefined);
+			assert.equal(body.system.at(-1).cache_control, undefined);
+			assert.deepEqual(anthropicMarks(body.messages), [false, true, true]);
+		});
+
+		it('marks the largest messages with largest-blocks and reports them', async () => {
+			setConfiguration({ 'opencodeZen.promptCaching.breakpointStrategy': 'largest-blocks', 'opencodeZen.promptCaching.breakpointCount': 2 });
+			outputLog.length = 0;
+			await chat('@ai-sdk/anthropic', [
+				user(new vscode.LanguageModelTextPart(`Review this file:\n${'const value = 1;\n'.repeat(200)}`)),
+				assistant(new vscode.LanguageModelTextPart('Looks fine.')),
+				user(new vscode.LanguageModelTextPart('Thanks')),
+			]);
+
+			assert.deepEqual(anthropicMarks(server.lastChatRequest().body.messages), [true, false, true]);
+			const report = outputLog.find((line) => line.includes('Cache breakpoints (largest-blocks)'));
+			assert.ok(report);
+			assert.match(report, /message #0 \(user\): ~\d+ tokens, cached prefix ~\d+ tokens/);
+			assert.match(report, /message #2 \(user\)/);
+		});
+	});
+
+	it('sends tool results as tool messages with the provider tool name', async () => {
+		await chat(
+			'@ai-sdk/openai-compatible',
+			[
+				user(new vscode.LanguageModelTextPart('Read the README')),
+				assistant(new vscode.LanguageModelToolCallPart('call_1', VS_CODE_TOOL_NAME, { path: 'README.md' })),
+				user(new vscode.LanguageModelToolResultPart('call_1', [new vscode.LanguageModelTextPart('# OpenCode Zen')])),
+			],
+			{ tools: [readFileTool] }
+		);
+		const messages: any[] = server.lastChatRequest().body.messages;
+
+		assert.deepEqual(
+			messages.map((message) => message.role),
+			['user', 'assistant', 'tool']
+		);
+		assert.equal(messages[1].tool_calls[0].function.name, SANITIZED_TOOL_NAME);
+		assert.equal(messages[2].tool_call_id, 'call_1');
+		assert.equal(messages[2].content, '# OpenCode Zen');
+	});
+
+	it('shows reasoning inline before the answer', async () => {
+		server.enqueue(SCENARIOS.reasoning);
+		const parts = await chat('@ai-sdk/anthropic', [user(new vscode.LanguageModelTextPart('Hi'))]);
+		assert.equal(text(parts), '> **Reasoning**\n> Let me think about it.\n\nDone thinking.');
+	});
+
+	it('surfaces a rejected API key as a NoPermissions error', async () => {
+		server.enqueue(SCENARIOS.unauthorized);
+		await assert.rejects(chat('@ai-sdk/openai-compatible', [user(new vscode.LanguageModelTextPart('Hi'))]), (err: unknown) => {
+			assert.ok(err instanceof vscode.LanguageModelError);
+			assert.equal(err.code, 'NoPermissions');
+			return true;
+		});
+	});
+});
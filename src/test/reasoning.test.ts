@@ -0,0 +1,180 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { resolveReasoningSettings, toReasoningProviderOptions, type ReasoningSettings } from '../reasoning';
+import { outputLog, resetConfiguration, setConfiguration } from './support/vscode';
+
+type Row = {
+	name: string;
+	settings: ReasoningSettings;
+	expected: Record<string, unknown>;
+	/** Settings that must be reported as ignored. */
+	warns?: Array<keyof ReasoningSettings>;
+	/** Defaults to an id built from the row name, which keeps each row's warnings apart. */
+	modelId?: string;
+	maxOutputTokens?: number;
+};
+
+const TABLES: Record<string, Row[]> = {
+	'@ai-sdk/openai': [
+		{
+			name: 'maps effort, summary and verbosity',
+			settings: { effort: 'high', summary: 'detailed', verbosity: 'low' },
+			expected: { reasoningEffort: 'high', reasoningSummary: 'detailed', textVerbosity: 'low' },
+		},
+		{ name: 'accepts the xhigh effort', settings: { effort: 'xhigh' }, expected: { reasoningEffort: 'xhigh' } },
+		{
+			name: 'skips unknown effort and summary values',
+			settings: { effort: 'max', summary: 'verbose' },
+			expected: {},
+			warns: ['effort', 'summary'],
+		},
+		{
+			name: 'does not support a thinking budget',
+			settings: { thinkingBudget: 0, includeThoughts: true },
+			expected: {},
+			warns: ['thinkingBudget', 'includeThoughts'],
+		},
+	],
+	'@ai-sdk/openai-compatible': [
+		{
+			name: 'maps effort and verbosity but not a summary',
+			settings: { effort: 'minimal', verbosity: 'medium', summary: 'auto' },
+			expected: { reasoningEffort: 'minimal', textVerbosity: 'medium' },
+			warns: ['summary'],
+		},
+	],
+	'@ai-sdk/anthropic': [
+		{ name: 'disables thinking with a budget of 0', settings: { thinkingBudget: 0 }, expected: { thinking: { type: 'disabled' } } },
+		{
+			name: 'accepts the minimum thinking budget',
+			settings: { thinkingBudget: 1_024 },
+			expected: { thinking: { type: 'enabled', budgetTokens: 1_024 } },
+		},
+		{ name: 'rejects a budget under the minimum', settings: { thinkingBudget: 1_023 }, expected: {}, warns: ['thinkingBudget'] },
+		{
+			name: 'rejects a budget that leaves no room for output',
+			settings: { thinkingBudget: 64_000 },
+			expected: {},
+			warns: ['thinkingBudget'],
+			maxOutputTokens: 64_000,
+		},
+		{ name: 'rejects a fractional budget', settings: { thinkingBudget: 2_048.5 }, expected: {}, warns: ['thinkingBudget'] },
+		{ name: 'rejects a negative budget', settings: { thinkingBudget: -1 }, expected: {}, warns: ['thinkingBudget'] },
+		{
+			name: 'maps effort and skips OpenAI-only settings',
+			settings: { effort: 'medium', verbosity: 'low', summary: 'auto' },
+			expected: { effort: 'medium' },
+			warns: ['verbosity', 'summary'],
+		},
+		{
+			name: 'turns off the built-in Kimi K2.5 thinking with a budget of 0',
+			modelId: 'kimi-k2.5',
+			settings: { thinkingBudget: 0 },
+			expected: { thinking: { type: 'disabled' } },
+		},
+		{
+			name: 'sets a Kimi K2.5 thinking budget below its output limit',
+			modelId: 'kimi-k2.5-free',
+			settings: { thinkingBudget: 16_000 },
+			expected: { thinking: { type: 'enabled', budgetTokens: 16_000 } },
+			maxOutputTokens: 32_768,
+		},
+	],
+	'@ai-sdk/google': [
+		{
+			name: 'maps effort to thinkingLevel',
+			settings: { effort: 'low' },
+			expected: { thinkingConfig: { includeThoughts: true, thinkingLevel: 'low' } },
+		},
+		{
+			name: 'passes a thinkingBudget of 0 through',
+			settings: { thinkingBudget: 0 },
+			expected: { thinkingConfig: { includeThoughts: true, thinkingBudget: 0 } },
+		},
+		{
+			name: 'accepts -1 as the dynamic budget',
+			settings: { thinkingBudget: -1 },
+			expected: { thinkingConfig: { includeThoughts: true, thinkingBudget: -1 } },
+		},
+		{
+			name: 'sends thinkingLevel and thinkingBudget side by side',
+			settings: { effort: 'high', thinkingBudget: 8_192 },
+			expected: { thinkingConfig: { includeThoughts: true, thinkingLevel: 'high', thinkingBudget: 8_192 } },
+		},
+		{
+			name: 'rejects a budget over the maximum',
+			settings: { thinkingBudget: 40_000 },
+			expected: { thinkingConfig: { includeThoughts: true } },
+			warns: ['thinkingBudget'],
+		},
+		{
+			name: 'rejects the OpenAI-only xhigh effort',
+			settings: { effort: 'xhigh', includeThoughts: false },
+			expected: { thinkingConfig: { includeThoughts: false } },
+			warns: ['effort'],
+		},
+		{
+			name: 'keeps thoughts on for a non-boolean includeThoughts',
+			settings: { includeThoughts: 'yes' as unknown as boolean },
+			expected: { thinkingConfig: { includeThoughts: true } },
+			warns: ['includeThoughts'],
+		},
+	],
+};
+
+describe('toReasoningProviderOptions', () => {
+	for (const [npm, rows] of Object.entries(TABLES)) {
+		describe(npm, () => {
+			for (const row of rows) {
+				it(row.name, () => {
+					const modelId = row.modelId ?? `${npm}/${row.name}`;
+					const model = { id: modelId, maxOutputTokens: row.maxOutputTokens ?? 64_000 };
+
+					assert.deepEqual(toReasoningProviderOptions(model, npm, row.settings), row.expected);
+
+					const warned = outputLog
+						.filter((line) => line.includes(`for ${modelId}:`))
+						.map((line) => /Ignoring reasoning setting "(\w+)"/.exec(line)?.[1]);
+					assert.deepEqual(warned.sort(), [...(row.warns ?? [])].sort());
+				});
+			}
+		});
+	}
+
+	it('sends nothing for providers without reasoning options', () => {
+		assert.deepEqual(toReasoningProviderOptions({ id: 'mystery', maxOutputTokens: 8_192 }, undefined, { effort: 'high', thinkingBudget: 0 }), {});
+	});
+});
+
+describe('resolveReasoningSettings', () => {
+	afterEach(() => resetConfiguration());
+
+	it('applies the built-in defaults', () => {
+		assert.deepEqual(resolveReasoningSettings('gemini-3-pro'), { effort: 'high' });
+		assert.deepEqual(resolveReasoningSettings('gpt-5'), {});
+	});
+
+	it('merges matching entries in order, then the request override', () => {
+		setConfiguration({
+			'opencodeZen.reasoning.perModel': {
+				'gpt-5*': { effort: 'low', summary: 'auto' },
+				'gpt-5-mini': { effort: 'minimal' },
+				'claude-*': { thinkingBudget: 4_096 },
+			},
+		});
+
+		assert.deepEqual(resolveReasoningSettings('gpt-5-mini'), { effort: 'minimal', summary: 'auto' });
+		assert.deepEqual(resolveReasoningSettings('gpt-5-mini', { summary: 'detailed' }), { effort: 'minimal', summary: 'detailed' });
+	});
+
+	it('lets settings override the built-in defaults', () => {
+		setConfiguration({ 'opencodeZen.reasoning.perModel': { '*gemini*': { effort: 'low', thinkingBudget: 0 } } });
+
+		assert.deepEqual(resolveReasoningSettings('gemini-3-pro'), { effort: 'low', thinkingBudget: 0 });
+	});
+
+	it('ignores request overrides that are not objects', () => {
+		assert.deepEqual(resolveReasoningSettings('gemini-3-pro', 'high'), { effort: 'high' });
+		assert.deepEqual(resolveReasoningSettings('gemini-3-pro', ['low']), { effort: 'high' });
+	});
+});
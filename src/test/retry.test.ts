@@ -0,0 +1,71 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeRetryDelay, isRetryableError, sleep, type RetryPolicy } from '../retry';
+
+const POLICY: RetryPolicy = { maxAttempts: 3, maxDelayMs: 30_000 };
+
+/** An error shaped like AI SDK's APICallError, nested the way `streamZen` rethrows it. */
+function withHeaders(responseHeaders: Record<string, string>): Error {
+	return new Error('Request failed', { cause: Object.assign(new Error('Too Many Requests'), { statusCode: 429, responseHeaders }) });
+}
+
+describe('isRetryableError', () => {
+	it('classifies unwrapped errors', () => {
+		assert.equal(isRetryableError(withHeaders({})), true);
+		assert.equal(isRetryableError(Object.assign(new Error('getaddrinfo ENOTFOUND opencode.ai'), { code: 'ENOTFOUND' })), true);
+		assert.equal(isRetryableError(Object.assign(new Error('Bad Request'), { statusCode: 400 })), false);
+	});
+});
+
+describe('computeRetryDelay', () => {
+	it('waits the Retry-After seconds', () => {
+		assert.equal(computeRetryDelay(1, withHeaders({ 'retry-after': '2' }), POLICY), 2_000);
+	});
+
+	it('prefers retry-after-ms over Retry-After', () => {
+		assert.equal(computeRetryDelay(1, withHeaders({ 'retry-after-ms': '150', 'retry-after': '5' }), POLICY), 150);
+	});
+
+	it('waits until a Retry-After date', () => {
+		const delay = computeRetryDelay(1, withHeaders({ 'retry-after': new Date(Date.now() + 5_000).toUTCString() }), POLICY);
+		// HTTP dates have second precision.
+		assert.ok(delay > 3_000 && delay <= 5_000, `unexpected delay ${delay}`);
+	});
+
+	it('caps server-provided delays at maxDelayMs', () => {
+		assert.equal(computeRetryDelay(1, withHeaders({ 'retry-after': '120' }), POLICY), 30_000);
+		assert.equal(computeRetryDelay(1, withHeaders({ 'retry-after-ms': '90000' }), { ...POLICY, maxDelayMs: 1_000 }), 1_000);
+	});
+
+	it('backs off exponentially with jitter up to maxDelayMs without a Retry-After header', () => {
+		for (let run = 0; run < 20; run++) {
+			const first = computeRetryDelay(1, new Error('socket hang up'), POLICY);
+			assert.ok(first >= 500 && first <= 1_000, `unexpected first delay ${first}`);
+			const third = computeRetryDelay(3, withHeaders({ 'retry-after': 'soon' }), POLICY);
+			assert.ok(third >= 2_000 && third <= 4_000, `unexpected third delay ${third}`);
+			const capped = computeRetryDelay(10, new Error('socket hang up'), { ...POLICY, maxDelayMs: 5_000 });
+			assert.ok(capped >= 2_500 && capped <= 5_000, `unexpected capped delay ${capped}`);
+		}
+	});
+});
+
+describe('sleep', () => {
+	it('resolves after the delay', async () => {
+		await sleep(5, new AbortController().signal);
+	});
+
+	it('rejects when the signal aborts during the wait', async () => {
+		const controller = new AbortController();
+		const started = Date.now();
+		setTimeout(() => controller.abort(), 10);
+
+		await assert.rejects(sleep(60_000, controller.signal), /Request aborted/);
+		assert.ok(Date.now() - started < 5_000);
+	});
+
+	it('rejects right away when the signal is already aborted', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		await assert.rejects(sleep(60_000, controller.signal), /Request aborted/);
+	});
+});
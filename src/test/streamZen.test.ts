@@ -0,0 +1,166 @@
+import { jsonSchema } from 'ai';
+import * as assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { AuthenticationError } from '../errors';
+import { streamZen, type ZenUsage } from '../zenClient';
+import { MockZenServer, SCENARIOS, type RecordedRequest } from './support/mockZenServer';
+
+type Capture = {
+	text: string;
+	reasoning: string;
+	toolCalls: Array<{ toolCallId: string; toolName: string; input: object }>;
+	usage?: ZenUsage;
+};
+
+const PACKAGES = ['@ai-sdk/openai-compatible', '@ai-sdk/anthropic', '@ai-sdk/openai', '@ai-sdk/google'] as const;
+
+const server = new MockZenServer();
+
+async function run(providerNpm: string, overrides: Partial<Parameters<typeof streamZen>[0]> = {}): Promise<Capture> {
+	const capture: Capture = { text: '', reasoning: '', toolCalls: [] };
+	await streamZen(
+		{
+			apiKey: 'test-key',
+			modelId: 'mock-model',
+			messages: [{ role: 'user', content: 'Hi' }],
+			toolMode: 'auto',
+			abortSignal: new AbortController().signal,
+			providerNpm,
+			baseURL: server.baseUrl,
+			headers: { 'x-opencode-session': 'session-1' },
+			includeUsage: true,
+			...overrides,
+		},
+		{
+			onTextDelta: (delta) => {
+				capture.text += delta;
+			},
+			onReasoningDelta: (delta) => {
+				capture.reasoning += delta;
+			},
+			onToolCall: (call) => capture.toolCalls.push(call),
+			onUsage: (usage) => {
+				capture.usage = usage;
+			},
+		}
+	);
+	return capture;
+}
+
+/** Tool names as they appear in each wire format. */
+function wireToolNames(npm: string, request: RecordedRequest): string[] {
+	const tools: any[] = request.body.tools ?? [];
+	if (npm === '@ai-sdk/openai-compatible') {
+		return tools.map((tool) => tool.function.name);
+	}
+	if (npm === '@ai-sdk/google') {
+		return tools.flatMap((tool) => tool.functionDeclarations.map((declaration: any) => declaration.name));
+	}
+	return tools.map((tool) => tool.name);
+}
+
+const EXPECTED_PATHS: Record<(typeof PACKAGES)[number], string> = {
+	'@ai-sdk/openai-compatible': '/zen/v1/chat/completions',
+	'@ai-sdk/anthropic': '/zen/v1/messages',
+	'@ai-sdk/openai': '/zen/v1/responses',
+	'@ai-sdk/google': '/zen/v1/models/mock-model:streamGenerateContent?alt=sse',
+};
+
+describe('streamZen against the mock Zen server', () => {
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => server.reset());
+
+	for (const npm of PACKAGES) {
+		describe(npm, () => {
+			it('streams text and reasoning and reports usage', async () => {
+				server.enqueue(SCENARIOS.reasoning);
+				const capture = await run(npm);
+
+				assert.equal(capture.text, 'Done thinking.');
+				assert.equal(capture.reasoning, 'Let me think about it.');
+				assert.equal(capture.usage?.outputTokens, 30);
+				assert.equal(capture.usage?.cacheReadTokens, 80);
+
+				const request = server.lastChatRequest();
+				assert.equal(request.path, EXPECTED_PATHS[npm]);
+				assert.equal(request.headers['x-opencode-session'], 'session-1');
+			});
+
+			it('sends the API key in the provider-specific header', async () => {
+				await run(npm);
+				const { headers } = server.lastChatRequest();
+				if (npm === '@ai-sdk/anthropic') {
+					assert.equal(headers['x-api-key'], 'test-key');
+				} else if (npm === '@ai-sdk/google') {
+					assert.equal(headers['x-goog-api-key'], 'test-key');
+				} else {
+					assert.equal(headers.authorization, 'Bearer test-key');
+				}
+			});
+
+			it('maps provider tool names back to VS Code tool names', async () => {
+				server.enqueue(SCENARIOS.toolCall);
+				const capture = await run(npm, {
+					tools: {
+						read_file: {
+							description: 'Reads a file',
+							inputSchema: jsonSchema({ type: 'object', properties: { path: { type: 'string' } }, required: ['path'] }),
+						},
+					},
+					toolNameMap: new Map([['read_file', 'copilot.readFile']]),
+				});
+
+				assert.deepEqual(wireToolNames(npm, server.lastChatRequest()), ['read_file']);
+				assert.equal(capture.toolCalls.length, 1);
+				assert.equal(capture.toolCalls[0].toolName, 'copilot.readFile');
+				assert.deepEqual(capture.toolCalls[0].input, { path: 'README.md' });
+				if (npm !== '@ai-sdk/google') {
+					assert.equal(capture.toolCalls[0].toolCallId, 'call_1');
+				}
+			});
+
+			it('classifies a rejected API key without retrying', async () => {
+				server.enqueue(SCENARIOS.unauthorized);
+				await assert.rejects(run(npm, { retry: { maxAttempts: 3, maxDelayMs: 0 } }), (err: unknown) => {
+					assert.ok(err instanceof AuthenticationError);
+					assert.equal(err.details.statusCode, 401);
+					assert.equal(err.details.providerMessage, 'Invalid API key.');
+					return true;
+				});
+				assert.equal(server.requests.length, 1);
+			});
+
+			it('retries a rate limited request before any output', async () => {
+				server.enqueue(SCENARIOS.rateLimited, SCENARIOS.text);
+				const capture = await run(npm, { retry: { maxAttempts: 2, maxDelayMs: 0 } });
+
+				assert.equal(capture.text, 'Hello from the mock.');
+				assert.equal(server.requests.length, 2);
+			});
+		});
+	}
+
+	describe('OpenAI-compatible prompt caching', () => {
+		const providerOptions = { opencode: { prompt_cache_key: 'cache-key-1', prompt_cache_retention: '24h' } };
+
+		it('sends the prompt cache key and retention as top-level fields', async () => {
+			await run('@ai-sdk/openai-compatible', { providerOptions });
+			const { body } = server.lastChatRequest();
+			assert.equal(body.prompt_cache_key, 'cache-key-1');
+			assert.equal(body.prompt_cache_retention, '24h');
+		});
+
+		it('strips the cache fields for models that reject them', async () => {
+			await run('@ai-sdk/openai-compatible', { providerOptions, stripPromptCacheFields: true });
+			const { body } = server.lastChatRequest();
+			assert.equal('prompt_cache_key' in body, false);
+			assert.equal('prompt_cache_retention' in body, false);
+		});
+
+		it('requests usage in the stream when includeUsage is set', async () => {
+			await run('@ai-sdk/openai-compatible');
+			assert.deepEqual(server.lastChatRequest().body.stream_options, { include_usage: true });
+		});
+	});
+});
@@ -0,0 +1,65 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+class MemoryMemento implements vscode.Memento {
+	private readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? (this.values.get(key) as T) : defaultValue;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		if (value === undefined) {
+			this.values.delete(key);
+		} else {
+			this.values.set(key, value);
+		}
+	}
+
+	setKeysForSync(): void {
+		// Nothing syncs in tests.
+	}
+}
+
+class MemorySecretStorage implements vscode.SecretStorage {
+	private readonly values = new Map<string, string>();
+	private readonly emitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+	readonly onDidChange = this.emitter.event;
+
+	async get(key: string): Promise<string | undefined> {
+		return this.values.get(key);
+	}
+
+	async store(key: string, value: string): Promise<void> {
+		this.values.set(key, value);
+		this.emitter.fire({ key });
+	}
+
+	async delete(key: string): Promise<void> {
+		this.values.delete(key);
+		this.emitter.fire({ key });
+	}
+
+	async keys(): Promise<string[]> {
+		return [...this.values.keys()];
+	}
+}
+
+/** An extension context with in-memory state and secrets, and global storage under `storageDir`. */
+export function createExtensionContext(storageDir: string): vscode.ExtensionContext {
+	const context = {
+		subscriptions: [],
+		workspaceState: new MemoryMemento(),
+		globalState: new MemoryMemento(),
+		secrets: new MemorySecretStorage(),
+		globalStorageUri: vscode.Uri.file(path.join(storageDir, 'global')),
+		storageUri: vscode.Uri.file(path.join(storageDir, 'workspace')),
+		extensionUri: vscode.Uri.file(path.resolve(__dirname, '../../..')),
+		extension: { packageJSON: { version: '0.0.0-test' } },
+	};
+	return context as unknown as vscode.ExtensionContext;
+}
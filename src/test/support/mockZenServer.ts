@@ -0,0 +1,347 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+export type MockToolCall = { id: string; name: string; input: Record<string, unknown> };
+
+export type MockUsage = { inputTokens: number; outputTokens: number; cachedTokens: number };
+
+/**
+ * What the next chat request answers with. Reasoning is streamed first, then text, then tool
+ * calls. An `error` scenario answers with that status and JSON body instead of a stream.
+ */
+export type MockScenario = {
+	reasoning?: string[];
+	text?: string[];
+	toolCalls?: MockToolCall[];
+	usage?: MockUsage;
+	error?: { status: number; body: unknown; headers?: Record<string, string> };
+};
+
+export type RecordedRequest = {
+	method: string;
+	/** Path and query, e.g. `/zen/v1/chat/completions`. */
+	path: string;
+	headers: http.IncomingHttpHeaders;
+	body: any;
+};
+
+export const SCENARIOS = {
+	text: { text: ['Hello', ' from', ' the mock.'] },
+	reasoning: { reasoning: ['Let me think', ' about it.'], text: ['Done thinking.'] },
+	toolCall: { toolCalls: [{ id: 'call_1', name: 'read_file', input: { path: 'README.md' } }] },
+	unauthorized: { error: { status: 401, body: { error: { message: 'Invalid API key.', type: 'authentication_error' } } } },
+	rateLimited: {
+		error: { status: 429, body: { error: { message: 'Too many requests.', type: 'rate_limit_error' } }, headers: { 'retry-after': '0' } },
+	},
+} satisfies Record<string, MockScenario>;
+
+/** The only API key the mock accepts on the model list and chat routes. */
+export const MOCK_API_KEY = 'test-key';
+
+const DEFAULT_USAGE: MockUsage = { inputTokens: 120, outputTokens: 30, cachedTokens: 80 };
+const BASE_PATH = '/zen/v1';
+
+/**
+ * Local stand-in for OpenCode Zen. It speaks the streaming wire formats of every AI SDK package
+ * the extension uses (`/chat/completions`, `/messages`, `/responses` and Gemini
+ * `streamGenerateContent`), serves a model catalog at `/api.json` and records every request.
+ * Like Zen, it checks the API key before anything else and answers 401 to a wrong one.
+ */
+export class MockZenServer {
+	readonly requests: RecordedRequest[] = [];
+	private readonly scenarios: MockScenario[] = [];
+	private readonly server = http.createServer((req, res) => void this.handle(req, res));
+	private catalog: unknown = {};
+
+	async start(): Promise<void> {
+		await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+	}
+
+	async stop(): Promise<void> {
+		this.server.closeAllConnections();
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	get origin(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	/** Base URL to pass as `baseURL` or to use as the catalog provider's `api`. */
+	get baseUrl(): string {
+		return `${this.origin}${BASE_PATH}`;
+	}
+
+	/** Queues scenarios for the next chat requests; without one, requests get `SCENARIOS.text`. */
+	enqueue(...scenarios: MockScenario[]): void {
+		this.scenarios.push(...scenarios);
+	}
+
+	setCatalog(catalog: unknown): void {
+		this.catalog = catalog;
+	}
+
+	reset(): void {
+		this.requests.length = 0;
+		this.scenarios.length = 0;
+	}
+
+	/** The last recorded chat request (anything but the catalog and model list). */
+	lastChatRequest(): RecordedRequest {
+		const request = [...this.requests].reverse().find((candidate) => candidate.method === 'POST');
+		if (!request) {
+			throw new Error('The mock server has not received a chat request.');
+		}
+		return request;
+	}
+
+	private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+		let raw = '';
+		for await (const chunk of req) {
+			raw += chunk;
+		}
+		const path = req.url ?? '/';
+		let body: unknown = raw;
+		try {
+			body = raw ? JSON.parse(raw) : undefined;
+		} catch {
+			// Keep non-JSON bodies as text.
+		}
+		this.requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+
+		if (req.method === 'GET' && path === '/api.json') {
+			sendJson(res, 200, this.catalog);
+			return;
+		}
+		if (!isAuthorized(req.headers)) {
+			sendJson(res, SCENARIOS.unauthorized.error.status, SCENARIOS.unauthorized.error.body);
+			return;
+		}
+		if (req.method === 'GET' && path === `${BASE_PATH}/models`) {
+			sendJson(res, 200, { object: 'list', data: [{ id: 'mock-model', object: 'model' }] });
+			return;
+		}
+
+		const scenario: MockScenario = this.scenarios.shift() ?? SCENARIOS.text;
+		if (scenario.error) {
+			sendJson(res, scenario.error.status, scenario.error.body, scenario.error.headers);
+			return;
+		}
+
+		const route = path.split('?')[0];
+		if (route.endsWith('/chat/completions') && !(body as any)?.messages?.length) {
+			sendJson(res, 400, { error: { message: 'messages: must contain at least one message', type: 'invalid_request_error' } });
+			return;
+		}
+		let events: string[];
+		if (route.endsWith('/chat/completions')) {
+			events = chatCompletionEvents(scenario, (body as any)?.model);
+		} else if (route.endsWith('/messages')) {
+			events = anthropicEvents(scenario, (body as any)?.model);
+		} else if (route.endsWith('/responses')) {
+			events = responsesEvents(scenario, (body as any)?.model);
+		} else if (route.endsWith(':streamGenerateContent')) {
+			events = geminiEvents(scenario);
+		} else {
+			sendJson(res, 404, { error: { message: `No mock route for ${req.method} ${path}` } });
+			return;
+		}
+
+		res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+		for (const event of events) {
+			res.write(event);
+		}
+		res.end();
+	}
+}
+
+function isAuthorized(headers: http.IncomingHttpHeaders): boolean {
+	const key = headers.authorization?.replace(/^Bearer /, '') ?? headers['x-api-key'] ?? headers['x-goog-api-key'];
+	return key === MOCK_API_KEY;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+	res.writeHead(status, { 'content-type': 'application/json', ...headers });
+	res.end(JSON.stringify(body));
+}
+
+function sse(data: unknown, event?: string): string {
+	return `${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+function chatCompletionEvents(scenario: MockScenario, model = 'mock-model'): string[] {
+	const usage = scenario.usage ?? DEFAULT_USAGE;
+	const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+		sse({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', created: 1, model, choices: [{ index: 0, delta, finish_reason: finishReason }] });
+
+	const events = [chunk({ role: 'assistant', content: '' })];
+	for (const delta of scenario.reasoning ?? []) {
+		events.push(chunk({ reasoning_content: delta }));
+	}
+	for (const delta of scenario.text ?? []) {
+		events.push(chunk({ content: delta }));
+	}
+	(scenario.toolCalls ?? []).forEach((call, index) => {
+		events.push(
+			chunk({ tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.input) } }] })
+		);
+	});
+	events.push(chunk({}, scenario.toolCalls?.length ? 'tool_calls' : 'stop'));
+	events.push(
+		sse({
+			id: 'chatcmpl-mock',
+			object: 'chat.completion.chunk',
+			created: 1,
+			model,
+			choices: [],
+			usage: {
+				prompt_tokens: usage.inputTokens,
+				completion_tokens: usage.outputTokens,
+				total_tokens: usage.inputTokens + usage.outputTokens,
+				prompt_tokens_details: { cached_tokens: usage.cachedTokens },
+			},
+		})
+	);
+	events.push(sse('[DONE]'));
+	return events;
+}
+
+function anthropicEvents(scenario: MockScenario, model = 'mock-model'): string[] {
+	const usage = scenario.usage ?? DEFAULT_USAGE;
+	const events = [
+		sse(
+			{
+				type: 'message_start',
+				message: {
+					id: 'msg_mock',
+					type: 'message',
+					role: 'assistant',
+					model,
+					content: [],
+					stop_reason: null,
+					stop_sequence: null,
+					usage: {
+						input_tokens: usage.inputTokens - usage.cachedTokens,
+						output_tokens: 1,
+						cache_read_input_tokens: usage.cachedTokens,
+						cache_creation_input_tokens: 0,
+					},
+				},
+			},
+			'message_start'
+		),
+	];
+	let index = 0;
+	const block = (start: unknown, deltas: unknown[]) => {
+		events.push(sse({ type: 'content_block_start', index, content_block: start }, 'content_block_start'));
+		for (const delta of deltas) {
+			events.push(sse({ type: 'content_block_delta', index, delta }, 'content_block_delta'));
+		}
+		events.push(sse({ type: 'content_block_stop', index }, 'content_block_stop'));
+		index++;
+	};
+
+	if (scenario.reasoning?.length) {
+		block({ type: 'thinking', thinking: '' }, [
+			...scenario.reasoning.map((thinking) => ({ type: 'thinking_delta', thinking })),
+			{ type: 'signature_delta', signature: 'mock-signature' },
+		]);
+	}
+	if (scenario.text?.length) {
+		block({ type: 'text', text: '' }, scenario.text.map((text) => ({ type: 'text_delta', text })));
+	}
+	for (const call of scenario.toolCalls ?? []) {
+		block({ type: 'tool_use', id: call.id, name: call.name, input: {} }, [
+			{ type: 'input_json_delta', partial_json: JSON.stringify(call.input) },
+		]);
+	}
+
+	events.push(
+		sse(
+			{
+				type: 'message_delta',
+				delta: { stop_reason: scenario.toolCalls?.length ? 'tool_use' : 'end_turn', stop_sequence: null },
+				usage: { output_tokens: usage.outputTokens },
+			},
+			'message_delta'
+		)
+	);
+	events.push(sse({ type: 'message_stop' }, 'message_stop'));
+	return events;
+}
+
+function responsesEvents(scenario: MockScenario, model = 'mock-model'): string[] {
+	const usage = scenario.usage ?? DEFAULT_USAGE;
+	const events = [sse({ type: 'response.created', response: { id: 'resp_mock', created_at: 1, model } })];
+	let outputIndex = 0;
+
+	if (scenario.reasoning?.length) {
+		const item = { type: 'reasoning', id: 'rs_mock', encrypted_content: null };
+		events.push(sse({ type: 'response.output_item.added', output_index: outputIndex, item }));
+		events.push(sse({ type: 'response.reasoning_summary_part.added', item_id: item.id, summary_index: 0 }));
+		for (const delta of scenario.reasoning) {
+			events.push(sse({ type: 'response.reasoning_summary_text.delta', item_id: item.id, summary_index: 0, delta }));
+		}
+		events.push(sse({ type: 'response.reasoning_summary_part.done', item_id: item.id, summary_index: 0 }));
+		events.push(sse({ type: 'response.output_item.done', output_index: outputIndex++, item }));
+	}
+	if (scenario.text?.length) {
+		const item = { type: 'message', id: 'msg_mock' };
+		events.push(sse({ type: 'response.output_item.added', output_index: outputIndex, item }));
+		for (const delta of scenario.text) {
+			events.push(sse({ type: 'response.output_text.delta', item_id: item.id, delta }));
+		}
+		events.push(sse({ type: 'response.output_item.done', output_index: outputIndex++, item }));
+	}
+	for (const call of scenario.toolCalls ?? []) {
+		const args = JSON.stringify(call.input);
+		const item = { type: 'function_call', id: `fc_${call.id}`, call_id: call.id, name: call.name, arguments: '' };
+		events.push(sse({ type: 'response.output_item.added', output_index: outputIndex, item }));
+		events.push(sse({ type: 'response.function_call_arguments.delta', item_id: item.id, output_index: outputIndex, delta: args }));
+		events.push(sse({ type: 'response.output_item.done', output_index: outputIndex++, item: { ...item, arguments: args, status: 'completed' } }));
+	}
+
+	events.push(
+		sse({
+			type: 'response.completed',
+			response: {
+				usage: {
+					input_tokens: usage.inputTokens,
+					input_tokens_details: { cached_tokens: usage.cachedTokens },
+					output_tokens: usage.outputTokens,
+					output_tokens_details: { reasoning_tokens: 0 },
+				},
+			},
+		})
+	);
+	return events;
+}
+
+function geminiEvents(scenario: MockScenario): string[] {
+	const usage = scenario.usage ?? DEFAULT_USAGE;
+	const chunk = (parts: unknown[], finishReason?: string) =>
+		sse({
+			candidates: [{ content: { role: 'model', parts }, ...(finishReason ? { finishReason } : {}) }],
+			...(finishReason
+				? {
+						usageMetadata: {
+							promptTokenCount: usage.inputTokens,
+							candidatesTokenCount: usage.outputTokens,
+							totalTokenCount: usage.inputTokens + usage.outputTokens,
+							cachedContentTokenCount: usage.cachedTokens,
+						},
+					}
+				: {}),
+		});
+
+	const events: string[] = [];
+	for (const text of scenario.reasoning ?? []) {
+		events.push(chunk([{ text, thought: true }]));
+	}
+	for (const text of scenario.text ?? []) {
+		events.push(chunk([{ text }]));
+	}
+	const calls = (scenario.toolCalls ?? []).map((call) => ({ functionCall: { name: call.name, args: call.input } }));
+	events.push(chunk(calls, 'STOP'));
+	return events;
+}
@@ -0,0 +1,14 @@
+/**
+ * Preloaded with `node --require` so `import * as vscode from 'vscode'` resolves to the test
+ * stand-in when the extension code runs outside VS Code.
+ */
+import { Module } from 'module';
+import * as path from 'path';
+
+const stubPath = path.join(__dirname, 'vscode.js');
+const moduleWithResolver = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+const resolveFilename = moduleWithResolver._resolveFilename;
+
+moduleWithResolver._resolveFilename = function (request: string, ...rest: unknown[]): string {
+	return request === 'vscode' ? stubPath : resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,300 @@
+/**
+ * Stand-in for the `vscode` module when tests run under plain Node (see `register.ts`). It covers
+ * the API surface the chat provider touches at runtime; UI calls resolve to "dismissed".
+ */
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import * as path from 'path';
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+	constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+	static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+		return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()));
+	}
+
+	dispose(): void {
+		this.callOnDispose();
+	}
+}
+
+export class EventEmitter<T> {
+	private listeners: Array<Listener<T>> = [];
+
+	readonly event = (listener: Listener<T>): Disposable => {
+		this.listeners.push(listener);
+		return new Disposable(() => {
+			this.listeners = this.listeners.filter((candidate) => candidate !== listener);
+		});
+	};
+
+	fire(event: T): void {
+		for (const listener of [...this.listeners]) {
+			listener(event);
+		}
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+export class Uri {
+	private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+	get path(): string {
+		return this.fsPath.split(path.sep).join('/');
+	}
+
+	static file(fsPath: string): Uri {
+		return new Uri('file', path.resolve(fsPath));
+	}
+
+	static joinPath(base: Uri, ...segments: string[]): Uri {
+		return new Uri(base.scheme, path.join(base.fsPath, ...segments));
+	}
+
+	toString(): string {
+		return `${this.scheme}://${this.path}`;
+	}
+}
+
+export class RelativePattern {
+	constructor(readonly base: Uri, readonly pattern: string) {}
+}
+
+export class MarkdownString {
+	constructor(public value = '') {}
+}
+
+export class CancellationTokenSource {
+	private readonly emitter = new EventEmitter<void>();
+	readonly token = {
+		isCancellationRequested: false,
+		onCancellationRequested: this.emitter.event,
+	};
+
+	cancel(): void {
+		this.token.isCancellationRequested = true;
+		this.emitter.fire();
+	}
+
+	dispose(): void {
+		this.emitter.dispose();
+	}
+}
+
+export enum LogLevel {
+	Off = 0,
+	Trace = 1,
+	Debug = 2,
+	Info = 3,
+	Warning = 4,
+	Error = 5,
+}
+
+export enum LanguageModelChatMessageRole {
+	User = 1,
+	Assistant = 2,
+}
+
+export enum LanguageModelChatToolMode {
+	Auto = 1,
+	Required = 2,
+}
+
+export enum StatusBarAlignment {
+	Left = 1,
+	Right = 2,
+}
+
+export enum QuickPickItemKind {
+	Separator = -1,
+	Default = 0,
+}
+
+export enum ProgressLocation {
+	SourceControl = 1,
+	Window = 10,
+	Notification = 15,
+}
+
+export class LanguageModelTextPart {
+	constructor(public value: string) {}
+}
+
+export class LanguageModelToolCallPart {
+	constructor(public callId: string, public name: string, public input: object) {}
+}
+
+export class LanguageModelToolResultPart {
+	constructor(public callId: string, public content: unknown[]) {}
+}
+
+export class LanguageModelPromptTsxPart {
+	constructor(public value: unknown) {}
+}
+
+export class LanguageModelDataPart {
+	constructor(public data: Uint8Array, public mimeType: string) {}
+
+	static text(value: string, mimeType = 'text/plain'): LanguageModelDataPart {
+		return new LanguageModelDataPart(new TextEncoder().encode(value), mimeType);
+	}
+
+	static json(value: unknown, mimeType = 'text/x-json'): LanguageModelDataPart {
+		return LanguageModelDataPart.text(JSON.stringify(value), mimeType);
+	}
+
+	static image(data: Uint8Array, mimeType: string): LanguageModelDataPart {
+		return new LanguageModelDataPart(data, mimeType);
+	}
+}
+
+export class LanguageModelChatMessage {
+	constructor(
+		public role: LanguageModelChatMessageRole,
+		content: string | unknown[],
+		public name?: string
+	) {
+		this.content = typeof content === 'string' ? [new LanguageModelTextPart(content)] : content;
+	}
+
+	content: unknown[];
+
+	static User(content: string | unknown[], name?: string): LanguageModelChatMessage {
+		return new LanguageModelChatMessage(LanguageModelChatMessageRole.User, content, name);
+	}
+
+	static Assistant(content: string | unknown[], name?: string): LanguageModelChatMessage {
+		return new LanguageModelChatMessage(LanguageModelChatMessageRole.Assistant, content, name);
+	}
+}
+
+export class LanguageModelError extends Error {
+	constructor(message?: string, readonly code = 'Unknown') {
+		super(message);
+		this.name = 'LanguageModelError';
+	}
+
+	static NoPermissions(message?: string): LanguageModelError {
+		return new LanguageModelError(message, 'NoPermissions');
+	}
+
+	static Blocked(message?: string): LanguageModelError {
+		return new LanguageModelError(message, 'Blocked');
+	}
+
+	static NotFound(message?: string): LanguageModelError {
+		return new LanguageModelError(message, 'NotFound');
+	}
+}
+
+/** Log lines written to output channels, as `[level] message`. */
+export const outputLog: string[] = [];
+
+function createOutputChannel(name: string) {
+	const log = (level: string) => (message: string, ...args: unknown[]) => {
+		outputLog.push(`[${level}] ${[message, ...args.map(String)].join(' ')}`);
+	};
+	return {
+		name,
+		logLevel: 1,
+		trace: log('trace'),
+		debug: log('debug'),
+		info: log('info'),
+		warn: log('warn'),
+		error: log('error'),
+		append: (value: string) => outputLog.push(value),
+		appendLine: (value: string) => outputLog.push(value),
+		replace: () => undefined,
+		clear: () => undefined,
+		show: () => undefined,
+		hide: () => undefined,
+		dispose: () => undefined,
+		onDidChangeLogLevel: new EventEmitter<number>().event,
+	};
+}
+
+const settings = new Map<string, unknown>();
+const configurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+
+/** Sets user settings by full key, e.g. `opencodeZen.catalog.url`. `undefined` removes a setting. */
+export function setConfiguration(values: Record<string, unknown>): void {
+	for (const [key, value] of Object.entries(values)) {
+		if (value === undefined) {
+			settings.delete(key);
+		} else {
+			settings.set(key, value);
+		}
+	}
+	const changed = Object.keys(values);
+	configurationEmitter.fire({
+		affectsConfiguration: (section) => changed.some((key) => key === section || key.startsWith(`${section}.`)),
+	});
+}
+
+export function resetConfiguration(): void {
+	settings.clear();
+}
+
+export const workspace = {
+	name: 'test-workspace' as string | undefined,
+	workspaceFolders: [{ name: 'test-workspace', index: 0, uri: Uri.file(process.cwd()) }],
+	getConfiguration(section?: string) {
+		const fullKey = (key: string) => (section ? `${section}.${key}` : key);
+		return {
+			get<T>(key: string, defaultValue?: T): T | undefined {
+				return settings.has(fullKey(key)) ? (settings.get(fullKey(key)) as T) : defaultValue;
+			},
+			has(key: string): boolean {
+				return settings.has(fullKey(key));
+			},
+			inspect: () => undefined,
+			update: async (key: string, value: unknown) => setConfiguration({ [fullKey(key)]: value }),
+		};
+	},
+	onDidChangeConfiguration: configurationEmitter.event,
+	createFileSystemWatcher() {
+		const noop = () => new Disposable();
+		return { onDidChange: noop, onDidCreate: noop, onDidDelete: noop, dispose: () => undefined };
+	},
+	fs: {
+		readFile: async (uri: Uri): Promise<Uint8Array> => new Uint8Array(await readFile(uri.fsPath)),
+		writeFile: async (uri: Uri, data: Uint8Array): Promise<void> => writeFile(uri.fsPath, data),
+		createDirectory: async (uri: Uri): Promise<void> => {
+			await mkdir(uri.fsPath, { recursive: true });
+		},
+		stat: async (uri: Uri) => {
+			const info = await stat(uri.fsPath);
+			return { type: info.isDirectory() ? 2 : 1, ctime: info.ctimeMs, mtime: info.mtimeMs, size: info.size };
+		},
+	},
+};
+
+const dismissed = async () => undefined;
+
+export const window = {
+	createOutputChannel,
+	showInformationMessage: dismissed,
+	showWarningMessage: dismissed,
+	showErrorMessage: dismissed,
+	showQuickPick: dismissed,
+	showInputBox: dismissed,
+	withProgress: async <R>(_options: unknown, task: (progress: { report(value: unknown): void }) => Promise<R>) =>
+		task({ report: () => undefined }),
+	createStatusBarItem() {
+		return { text: '', tooltip: undefined, name: undefined, command: undefined, show: () => undefined, hide: () => undefined, dispose: () => undefined };
+	},
+};
+
+export const commands = {
+	registerCommand: () => new Disposable(),
+	executeCommand: async () => undefined,
+};
+
+export const lm = {
+	registerLanguageModelChatProvider: () => new Disposable(),
+	selectChatModels: async () => [],
+};
@@ -0,0 +1,151 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { crc32 } from 'zlib';
+import { TokenCounter } from '../tokenCounter';
+
+const PROSE = 'Internationalization considerations complicate straightforward estimation.';
+const CODE = 'const total = items.map((x) => x * 2);';
+const CJK = '日本語のテキストを数える';
+
+const MODELS = {
+	openai: { id: 'gpt-5', family: 'gpt-5' },
+	anthropic: { id: 'claude-sonnet-4-5', family: 'claude-sonnet-4-5' },
+	google: { id: 'gemini-3-pro', family: 'gemini-3-pro' },
+	multilingual: { id: 'qwen3-coder', family: 'qwen3-coder' },
+};
+
+/** Expected estimates per profile, worked out by hand from the profile ratios. */
+const EXPECTED: Record<keyof typeof MODELS, { prose: number; code: number; cjk: number }> = {
+	openai: { prose: 16, code: 14, cjk: 10 },
+	anthropic: { prose: 21, code: 17, cjk: 15 },
+	google: { prose: 17, code: 17, cjk: 9 },
+	multilingual: { prose: 17, code: 17, cjk: 8 },
+};
+
+/** Anthropic's estimate for an image it could not measure, which is treated as 1024x1024. */
+const UNKNOWN_IMAGE_TOKENS = Math.ceil((1024 * 1024) / 750);
+
+function png(width: number, height: number): Uint8Array {
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr.set([8, 6, 0, 0, 0], 8);
+	const type = Buffer.from('IHDR');
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(ihdr.length);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(Buffer.concat([type, ihdr])));
+	return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), length, type, ihdr, crc]);
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+	const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+	const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01]);
+	sof0.writeUInt16BE(height, 5);
+	sof0.writeUInt16BE(width, 7);
+	return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.from([0xff, 0xd9])]);
+}
+
+function riff(chunk: string, payload: Buffer): Uint8Array {
+	const header = Buffer.alloc(20);
+	header.write('RIFF', 0);
+	header.writeUInt32LE(12 + payload.length, 4);
+	header.write('WEBP', 8);
+	header.write(chunk, 12);
+	header.writeUInt32LE(payload.length, 16);
+	return Buffer.concat([header, payload]);
+}
+
+function webpLossless(width: number, height: number): Uint8Array {
+	const payload = Buffer.alloc(10);
+	payload[0] = 0x2f;
+	payload.writeUInt32LE((width - 1) | ((height - 1) << 14), 1);
+	return riff('VP8L', payload);
+}
+
+function webpExtended(width: number, height: number): Uint8Array {
+	const payload = Buffer.alloc(10);
+	payload.writeUIntLE(width - 1, 4, 3);
+	payload.writeUIntLE(height - 1, 7, 3);
+	return riff('VP8X', payload);
+}
+
+describe('TokenCounter', () => {
+	for (const [profile, model] of Object.entries(MODELS) as Array<[keyof typeof MODELS, (typeof MODELS)[keyof typeof MODELS]]>) {
+		it(`estimates prose, code and CJK text with the ${profile} profile`, () => {
+			const counter = new TokenCounter();
+			assert.deepEqual(
+				{ prose: counter.count(model, PROSE), code: counter.count(model, CODE), cjk: counter.count(model, CJK) },
+				EXPECTED[profile]
+			);
+		});
+	}
+
+	it('falls back to the provider package, then to the OpenAI profile, for unknown families', () => {
+		const counter = new TokenCounter();
+		const unknown = { id: 'mystery-1', family: 'mystery' };
+		assert.equal(counter.count(unknown, CJK, '@ai-sdk/anthropic'), EXPECTED.anthropic.cjk);
+		assert.equal(counter.count(unknown, CJK, '@ai-sdk/google'), EXPECTED.google.cjk);
+		assert.equal(counter.count(unknown, CJK), EXPECTED.openai.cjk);
+	});
+
+	it('groups digits for the OpenAI vocabulary and splits them elsewhere', () => {
+		const counter = new TokenCounter();
+		assert.equal(counter.count(MODELS.openai, '1234567890'), 4);
+		assert.equal(counter.count(MODELS.anthropic, '1234567890'), 10);
+	});
+
+	it('sizes images from real PNG, JPEG and WebP headers', () => {
+		const counter = new TokenCounter();
+		const count = (data: Uint8Array, mimeType: string) => counter.countData(MODELS.anthropic, data, mimeType);
+
+		assert.equal(count(png(300, 200), 'image/png'), 80);
+		assert.equal(count(jpeg(640, 480), 'image/jpeg'), 410);
+		assert.equal(count(webpLossless(150, 100), 'image/webp'), 20);
+		// Downscaled to 1568x784 first.
+		assert.equal(count(webpExtended(3136, 1568), 'image/webp'), 1640);
+	});
+
+	it('uses each provider formula for the same image', () => {
+		const counter = new TokenCounter();
+		const image = png(1024, 768);
+		assert.equal(counter.countData(MODELS.anthropic, image, 'image/png'), Math.ceil((1024 * 768) / 750));
+		assert.equal(counter.countData(MODELS.google, image, 'image/png'), 2 * 1 * 258);
+		assert.equal(counter.countData(MODELS.openai, image, 'image/png'), 2 * 2 * 170 + 85);
+	});
+
+	it('falls back to a default size for unknown or corrupt images', () => {
+		const counter = new TokenCounter();
+		const count = (data: Uint8Array, mimeType: string) => counter.countData(MODELS.anthropic, data, mimeType);
+
+		assert.equal(count(png(300, 200).subarray(0, 20), 'image/png'), UNKNOWN_IMAGE_TOKENS);
+		assert.equal(count(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06]), 'image/jpeg'), UNKNOWN_IMAGE_TOKENS);
+		assert.equal(count(Buffer.from('BM not an image format we parse'), 'image/bmp'), UNKNOWN_IMAGE_TOKENS);
+		assert.equal(count(new Uint8Array(0), 'image/png'), UNKNOWN_IMAGE_TOKENS);
+	});
+
+	it('reuses the cached count for a message with the same content', () => {
+		const counter = new TokenCounter();
+		let inputReads = 0;
+		const input = { path: 'README.md' };
+		const toolCall = new vscode.LanguageModelToolCallPart('call_1', 'read_file', input);
+		Object.defineProperty(toolCall, 'input', {
+			get: () => {
+				inputReads++;
+				return input;
+			},
+		});
+		const message = {
+			role: vscode.LanguageModelChatMessageRole.Assistant,
+			content: [toolCall],
+			name: undefined,
+		} as vscode.LanguageModelChatRequestMessage;
+
+		const first = counter.count(MODELS.openai, message);
+		const readsForFirstCount = inputReads;
+		assert.equal(counter.count(MODELS.openai, message), first);
+		// A hit hashes the content again but does not re-estimate it.
+		assert.equal(inputReads, readsForFirstCount + 1);
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { priceUsage } from '../usageLedger';
+
+const SONNET_COST = { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 };
+
+function usage(inputTokens: number, outputTokens: number, cacheReadTokens = 0, cacheWriteTokens = 0) {
+	return { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens };
+}
+
+function assertCost(actual: number, expected: number): void {
+	assert.ok(Math.abs(actual - expected) < 1e-9, `expected $${expected}, got $${actual}`);
+}
+
+describe('priceUsage', () => {
+	it('prices uncached input and output per million tokens', () => {
+		assertCost(priceUsage(usage(1_000_000, 500_000), SONNET_COST), 3 + 7.5);
+	});
+
+	it('prices cache reads out of the input tokens at the cache read rate', () => {
+		assertCost(priceUsage(usage(1_000_000, 0, 800_000), SONNET_COST), 0.2 * 3 + 0.8 * 0.3);
+	});
+
+	it('prices cache writes out of the input tokens at the cache write rate', () => {
+		assertCost(priceUsage(usage(1_000_000, 0, 0, 400_000), SONNET_COST), 0.6 * 3 + 0.4 * 3.75);
+	});
+
+	it('prices cache tokens at the input rate without dedicated cache prices', () => {
+		assertCost(priceUsage(usage(1_000_000, 0, 300_000, 200_000), { input: 2, output: 8 }), 2);
+	});
+
+	it('never prices a negative uncached remainder', () => {
+		assertCost(priceUsage(usage(100_000, 0, 400_000), SONNET_COST), 0.4 * 0.3);
+	});
+
+	it('returns 0 when the model has no cost in the catalog', () => {
+		assert.equal(priceUsage(usage(1_000_000, 1_000_000, 500_000), undefined), 0);
+	});
+});
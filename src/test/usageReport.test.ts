@@ -0,0 +1,86 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { UsageEntry } from '../usageLedger';
+import { renderUsageReport, sumEntries, toCsv } from '../usageReport';
+
+/** Local noon, so the day grouping does not depend on the test machine's time zone. */
+function at(day: number): string {
+	return new Date(2026, 9, day, 12).toISOString();
+}
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+	return {
+		timestamp: at(18),
+		modelId: 'gpt-5',
+		workspace: 'app',
+		inputTokens: 100,
+		outputTokens: 10,
+		cacheReadTokens: 0,
+		cacheWriteTokens: 0,
+		cost: 0.01,
+		...overrides,
+	};
+}
+
+/** Rows of the markdown table under `heading`, without the header and separator lines. */
+function tableRows(report: string, heading: string): string[] {
+	const lines = report.split('\n');
+	const start = lines.indexOf(`## ${heading}`) + 4;
+	const end = lines.findIndex((line, index) => index >= start && !line.startsWith('|'));
+	return lines.slice(start, end);
+}
+
+const ENTRIES = [
+	entry({ modelId: 'gpt-5', workspace: 'app', profile: 'work', cost: 0.5 }),
+	entry({ modelId: 'claude-sonnet-4-5', workspace: 'app', cacheReadTokens: 80, cost: 2, timestamp: at(19) }),
+	entry({ modelId: 'gpt-5', workspace: 'docs', profile: 'work', cost: 0.25, timestamp: at(19) }),
+];
+
+describe('usage report', () => {
+	it('sums requests, tokens and cost', () => {
+		assert.deepEqual(sumEntries(ENTRIES), {
+			requests: 3,
+			inputTokens: 300,
+			outputTokens: 30,
+			cacheReadTokens: 80,
+			cacheWriteTokens: 0,
+			cost: 2.75,
+		});
+	});
+
+	it('groups by model and workspace, most expensive first', () => {
+		const report = renderUsageReport(ENTRIES);
+
+		assert.deepEqual(tableRows(report, 'By Model'), [
+			'| claude-sonnet-4-5 | 1 | 100 | 10 | 80 | 0 | $2.00 |',
+			'| gpt-5 | 2 | 200 | 20 | 0 | 0 | $0.7500 |',
+		]);
+		assert.deepEqual(tableRows(report, 'By Workspace'), [
+			'| app | 2 | 200 | 20 | 80 | 0 | $2.50 |',
+			'| docs | 1 | 100 | 10 | 0 | 0 | $0.2500 |',
+		]);
+	});
+
+	it('groups by day, newest first, and files entries without a profile under the default one', () => {
+		const report = renderUsageReport(ENTRIES);
+
+		assert.deepEqual(
+			tableRows(report, 'By Day').map((row) => row.split(' | ')[0]),
+			['| 2026-10-19', '| 2026-10-18']
+		);
+		assert.deepEqual(
+			tableRows(report, 'By Profile').map((row) => row.split(' | ').slice(0, 2)),
+			[['| default', '1'], ['| work', '2']]
+		);
+	});
+
+	it('quotes CSV fields with commas or quotes and leaves a missing profile empty', () => {
+		const csv = toCsv([entry({ workspace: 'acme, "beta" site', cost: 0.5 })]);
+
+		assert.equal(
+			csv,
+			'timestamp,modelId,workspace,profile,inputTokens,outputTokens,cacheReadTokens,cacheWriteTokens,cost\n' +
+				`${at(18)},gpt-5,"acme, ""beta"" site",,100,10,0,0,0.5\n`
+		);
+	});
+});
@@ -0,0 +1,295 @@
+import { createHash } from 'crypto';
+import * as vscode from 'vscode';
+
+/**
+ * Offline token estimator calibrated per model family. Counts are derived from a pre-tokenizer
+ * that mirrors how BPE/SentencePiece vocabularies split text (words, digit runs, symbol runs,
+ * whitespace, CJK characters) instead of a flat characters-per-token ratio, which badly misjudges
+ * code and non-Latin text.
+ */
+type TokenizerProfile = {
+	id: string;
+	/** Average characters per token inside a run of letters. */
+	lettersPerToken: number;
+	/** Digits per token; o200k groups up to three digits, SentencePiece vocabularies split each digit. */
+	digitsPerToken: number;
+	/** Average characters per token inside a run of punctuation or symbols. */
+	symbolsPerToken: number;
+	/** Tokens per CJK / kana / hangul character. */
+	cjkTokensPerChar: number;
+	imageFormula: ImageFormula;
+};
+
+type ImageFormula = 'openai' | 'anthropic' | 'google';
+
+const PROFILES: Record<string, TokenizerProfile> = {
+	openai: { id: 'openai', lettersPerToken: 4.4, digitsPerToken: 3, symbolsPerToken: 2, cjkTokensPerChar: 0.8, imageFormula: 'openai' },
+	anthropic: { id: 'anthropic', lettersPerToken: 3.6, digitsPerToken: 1, symbolsPerToken: 1.5, cjkTokensPerChar: 1.2, imageFormula: 'anthropic' },
+	google: { id: 'google', lettersPerToken: 4.2, digitsPerToken: 1, symbolsPerToken: 1.8, cjkTokensPerChar: 0.7, imageFormula: 'google' },
+	// Qwen, GLM, Kimi, DeepSeek and MiniMax ship large multilingual BPE vocabularies.
+	multilingual: { id: 'multilingual', lettersPerToken: 4.1, digitsPerToken: 1, symbolsPerToken: 1.8, cjkTokensPerChar: 0.65, imageFormula: 'openai' },
+};
+
+const FAMILY_PROFILES: Array<{ pattern: RegExp; profile: TokenizerProfile }> = [
+	{ pattern: /claude|anthropic/, profile: PROFILES.anthropic },
+	{ pattern: /gemini|gemma/, profile: PROFILES.google },
+	{ pattern: /gpt|^o\d|codex|grok/, profile: PROFILES.openai },
+	{ pattern: /qwen|glm|kimi|k2|deepseek|minimax|big-pickle/, profile: PROFILES.multilingual },
+];
+
+/** Tokens added per message for role and separator markers. */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Tokens added per tool call / tool result for ids and wrappers. */
+export const TOOL_PART_OVERHEAD_TOKENS = 8;
+const MAX_CACHE_ENTRIES = 2_000;
+
+const SEGMENT_PATTERN =
+	/([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}])|(\p{L}[\p{L}\p{M}']*)|(\p{N}+)|(\s+)|([^\p{L}\p{N}\s]+)/gu;
+
+export class TokenCounter {
+	private readonly cache = new Map<string, number>();
+
+	count(
+		model: Pick<vscode.LanguageModelChatInformation, 'id' | 'family'>,
+		text: string | vscode.LanguageModelChatRequestMessage,
+		providerNpm?: string
+	): number {
+		const profile = selectProfile(model, providerNpm);
+		const key = `${profile.id}:${hashContent(text)}`;
+		const cached = this.cache.get(key);
+		if (cached !== undefined) {
+			// Refresh recency so frequently re-counted history messages stay cached.
+			this.cache.delete(key);
+			this.cache.set(key, cached);
+			return cached;
+		}
+
+		const count = typeof text === 'string'
+			? Math.max(1, countTextTokens(text, profile))
+			: MESSAGE_OVERHEAD_TOKENS + countParts(text.content, profile);
+
+		this.cache.set(key, count);
+		if (this.cache.size > MAX_CACHE_ENTRIES) {
+			const oldest = this.cache.keys().next().value;
+			if (oldest !== undefined) {
+				this.cache.delete(oldest);
+			}
+		}
+		return count;
+	}
+
+	/** Estimates an image, PDF or other binary attachment that is not wrapped in a VS Code part. */
+	countData(
+		model: Pick<vscode.LanguageModelChatInformation, 'id' | 'family'>,
+		data: Uint8Array,
+		mimeType: string,
+		providerNpm?: string
+	): number {
+		return countDataPart(new vscode.LanguageModelDataPart(data, mimeType), selectProfile(model, providerNpm));
+	}
+}
+
+function selectProfile(model: Pick<vscode.LanguageModelChatInformation, 'id' | 'family'>, providerNpm?: string): TokenizerProfile {
+	const family = model.family.toLowerCase();
+	const modelId = model.id.toLowerCase();
+	for (const { pattern, profile } of FAMILY_PROFILES) {
+		if (pattern.test(family) || pattern.test(modelId)) {
+			return profile;
+		}
+	}
+	if (providerNpm === '@ai-sdk/anthropic') {
+		return PROFILES.anthropic;
+	}
+	if (providerNpm === '@ai-sdk/google') {
+		return PROFILES.google;
+	}
+	return PROFILES.openai;
+}
+
+function countTextTokens(text: string, profile: TokenizerProfile): number {
+	let tokens = 0;
+	for (const match of text.matchAll(SEGMENT_PATTERN)) {
+		const [segment, cjk, letters, digits, whitespace] = match;
+		if (cjk) {
+			tokens += profile.cjkTokensPerChar;
+		} else if (letters) {
+			// Common words are a single vocabulary entry; longer ones split into roughly equal pieces.
+			tokens += Math.max(1, Math.round(letters.length / profile.lettersPerToken));
+		} else if (digits) {
+			tokens += Math.ceil(digits.length / profile.digitsPerToken);
+		} else if (whitespace) {
+			// A single space merges into the next word; newlines and indentation runs cost a token.
+			if (whitespace !== ' ') {
+				tokens += Math.ceil(whitespace.length / 8);
+			}
+		} else {
+			tokens += Math.ceil(segment.length / profile.symbolsPerToken);
+		}
+	}
+	return Math.ceil(tokens);
+}
+
+function countParts(parts: readonly unknown[], profile: TokenizerProfile): number {
+	let tokens = 0;
+	for (const part of parts) {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			tokens += countTextTokens(part.value, profile);
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelToolCallPart) {
+			tokens += TOOL_PART_OVERHEAD_TOKENS + countTextTokens(part.name, profile) + countTextTokens(safeStringify(part.input), profile);
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelToolResultPart) {
+			tokens += TOOL_PART_OVERHEAD_TOKENS + countParts(part.content, profile);
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelPromptTsxPart) {
+			const value = typeof part.value === 'string' ? part.value : safeStringify(part.value);
+			tokens += countTextTokens(value, profile);
+			continue;
+		}
+		if (part instanceof vscode.LanguageModelDataPart) {
+			tokens += countDataPart(part, profile);
+			continue;
+		}
+	}
+	return tokens;
+}
+
+function countDataPart(part: vscode.LanguageModelDataPart, profile: TokenizerProfile): number {
+	if (part.mimeType === 'cache_control') {
+		return 0;
+	}
+	if (part.mimeType.startsWith('text/') || part.mimeType === 'application/json') {
+		return countTextTokens(new TextDecoder('utf-8').decode(part.data), profile);
+	}
+	if (part.mimeType.startsWith('image/')) {
+		return countImageTokens(readImageSize(part.data), profile.imageFormula);
+	}
+	if (part.mimeType === 'application/pdf') {
+		// Providers rasterise and extract text per page; ~1,500 tokens per page is typical.
+		const pages = new TextDecoder('latin1').decode(part.data).match(/\/Type\s*\/Page\b/g)?.length ?? 1;
+		return pages * 1_500;
+	}
+	// Other binary attachments are sent base64-encoded; assume roughly 3 bytes per token.
+	return Math.ceil(part.data.byteLength / 3);
+}
+
+function countImageTokens(size: { width: number; height: number } | undefined, formula: ImageFormula): number {
+	// Unknown dimensions: assume a typical ~1 megapixel screenshot.
+	const { width, height } = size ?? { width: 1024, height: 1024 };
+
+	if (formula === 'anthropic') {
+		// Images are downscaled to at most 1568px on the long edge; tokens ≈ width * height / 750.
+		const scale = Math.min(1, 1568 / Math.max(width, height));
+		return Math.ceil((width * scale * (height * scale)) / 750);
+	}
+
+	if (formula === 'google') {
+		// Small images cost a flat 258 tokens; larger images are tiled into 768x768 crops of 258 tokens.
+		if (width <= 384 && height <= 384) {
+			return 258;
+		}
+		return Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+	}
+
+	// OpenAI high detail: fit into 2048x2048, scale the short side to 768, then 170 per 512px tile + 85.
+	let w = width;
+	let h = height;
+	const fit = Math.min(1, 2048 / Math.max(w, h));
+	w *= fit;
+	h *= fit;
+	const shortSide = Math.min(1, 768 / Math.min(w, h));
+	w *= shortSide;
+	h *= shortSide;
+	return Math.ceil(w / 512) * Math.ceil(h / 512) * 170 + 85;
+}
+
+function readImageSize(data: Uint8Array): { width: number; height: number } | undefined {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const length = data.byteLength;
+
+	// PNG: IHDR width/height at fixed offsets.
+	if (length >= 24 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+		return { width: view.getUint32(16), height: view.getUint32(20) };
+	}
+
+	// GIF: logical screen size, little endian.
+	if (length >= 10 && data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+		return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+	}
+
+	// WebP: VP8 / VP8L / VP8X chunks.
+	if (length >= 30 && view.getUint32(0) === 0x52494646 && view.getUint32(8) === 0x57454250) {
+		const chunk = String.fromCharCode(data[12], data[13], data[14], data[15]);
+		if (chunk === 'VP8 ') {
+			return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+		}
+		if (chunk === 'VP8L') {
+			const bits = view.getUint32(21, true);
+			return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+		}
+		if (chunk === 'VP8X') {
+			const width = 1 + (data[24] | (data[25] << 8) | (data[26] << 16));
+			const height = 1 + (data[27] | (data[28] << 8) | (data[29] << 16));
+			return { width, height };
+		}
+	}
+
+	// JPEG: walk segments until a start-of-frame marker.
+	if (length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+		let offset = 2;
+		while (offset + 9 < length) {
+			if (data[offset] !== 0xff) {
+				offset++;
+				continue;
+			}
+			const marker = data[offset + 1];
+			const segmentLength = view.getUint16(offset + 2);
+			const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+			if (isStartOfFrame) {
+				return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+			}
+			offset += 2 + segmentLength;
+		}
+	}
+
+	return undefined;
+}
+
+function hashContent(text: string | vscode.LanguageModelChatRequestMessage): string {
+	const hash = createHash('sha1');
+	if (typeof text === 'string') {
+		hash.update('s:').update(text);
+		return hash.digest('hex');
+	}
+
+	hash.update(`m:${text.role}:`);
+	const visit = (parts: readonly unknown[]) => {
+		for (const part of parts) {
+			if (part instanceof vscode.LanguageModelTextPart) {
+				hash.update('t:').update(part.value);
+			} else if (part instanceof vscode.LanguageModelToolCallPart) {
+				hash.update(`c:${part.callId}:${part.name}:`).update(safeStringify(part.input));
+			} else if (part instanceof vscode.LanguageModelToolResultPart) {
+				hash.update(`r:${part.callId}:`);
+				visit(part.content);
+			} else if (part instanceof vscode.LanguageModelPromptTsxPart) {
+				hash.update('p:').update(safeStringify(part.value));
+			} else if (part instanceof vscode.LanguageModelDataPart) {
+				hash.update(`d:${part.mimeType}:`).update(part.data);
+			}
+		}
+	};
+	visit(text.content);
+	return hash.digest('hex');
+}
+
+function safeStringify(value: unknown): string {
+	try {
+		return JSON.stringify(value) ?? '';
+	} catch {
+		return String(value);
+	}
+}
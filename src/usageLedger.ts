@@ -0,0 +1,109 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { ModelCost } from './modelRegistry';
+import { getOutputChannel } from './output';
+import type { ZenUsage } from './zenClient';
+
+const LEDGER_FILE_NAME = 'usage-ledger.jsonl';
+
+export type UsageEntry = {
+	/** ISO 8601 timestamp of when the request finished. */
+	timestamp: string;
+	modelId: string;
+	workspace: string;
+	/** API key profile the request was sent with. Missing in entries written before profiles existed. */
+	profile?: string;
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+	/** Estimated cost in USD, priced with the catalog `cost` fields at request time. */
+	cost: number;
+};
+
+/**
+ * Append-only JSONL ledger of per-request token usage, stored in extension global storage so it
+ * survives restarts and is shared across workspaces.
+ */
+export class UsageLedger {
+	private readonly _onDidRecord = new vscode.EventEmitter<UsageEntry>();
+	readonly onDidRecord = this._onDidRecord.event;
+
+	private pendingWrite: Promise<void> = Promise.resolve();
+
+	constructor(private readonly context: vscode.ExtensionContext) {}
+
+	private get filePath(): string {
+		return path.join(this.context.globalStorageUri.fsPath, LEDGER_FILE_NAME);
+	}
+
+	record(modelId: string, usage: ZenUsage, cost: ModelCost | undefined, profile: string): UsageEntry {
+		const entry: UsageEntry = {
+			timestamp: new Date().toISOString(),
+			modelId,
+			workspace: vscode.workspace.name ?? 'No workspace',
+			profile,
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			cacheReadTokens: usage.cacheReadTokens,
+			cacheWriteTokens: usage.cacheWriteTokens,
+			cost: priceUsage(usage, cost),
+		};
+
+		// Serialize appends so concurrent requests never interleave partial lines.
+		this.pendingWrite = this.pendingWrite
+			.then(async () => {
+				await mkdir(path.dirname(this.filePath), { recursive: true });
+				await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+			})
+			.catch((err) => {
+				const message = err instanceof Error ? err.message : String(err);
+				getOutputChannel().warn(`Failed to write usage ledger: ${message}`);
+			});
+
+		this._onDidRecord.fire(entry);
+		return entry;
+	}
+
+	/** Reads every entry recorded before this call; appends recorded later wait until the read is done. */
+	async readEntries(): Promise<UsageEntry[]> {
+		const read = this.pendingWrite.then(() => readFile(this.filePath, 'utf-8')).catch(() => undefined);
+		this.pendingWrite = read.then(() => undefined);
+		const raw = await read;
+		if (raw === undefined) {
+			return [];
+		}
+
+		const entries: UsageEntry[] = [];
+		for (const line of raw.split('\n')) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				entries.push(JSON.parse(line) as UsageEntry);
+			} catch {
+				// Skip a truncated line from an interrupted write.
+			}
+		}
+		return entries;
+	}
+}
+
+/**
+ * Prices usage with models.dev `cost` fields (USD per 1M tokens). Cache reads and writes fall back
+ * to the regular input price when the catalog has no dedicated cache price.
+ */
+export function priceUsage(usage: ZenUsage, cost: ModelCost | undefined): number {
+	if (!cost) {
+		return 0;
+	}
+	const inputPrice = cost.input ?? 0;
+	const uncachedInput = Math.max(0, usage.inputTokens - usage.cacheReadTokens - usage.cacheWriteTokens);
+	const total =
+		uncachedInput * inputPrice +
+		usage.cacheReadTokens * (cost.cache_read ?? inputPrice) +
+		usage.cacheWriteTokens * (cost.cache_write ?? inputPrice) +
+		usage.outputTokens * (cost.output ?? 0);
+	return total / 1_000_000;
+}
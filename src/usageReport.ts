@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { DEFAULT_PROFILE } from './secrets';
+import type { UsageEntry, UsageLedger } from './usageLedger';
+
+type UsageTotals = {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+	cost: number;
+};
+
+const CSV_COLUMNS: Array<keyof UsageEntry> = [
+	'timestamp',
+	'modelId',
+	'workspace',
+	'profile',
+	'inputTokens',
+	'outputTokens',
+	'cacheReadTokens',
+	'cacheWriteTokens',
+	'cost',
+];
+
+export async function showUsageReport(ledger: UsageLedger): Promise<void> {
+	const entries = await ledger.readEntries();
+	if (entries.length === 0) {
+		vscode.window.showInformationMessage('OpenCode Zen: No usage has been recorded yet.');
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		[
+			{ label: 'Show Report', action: 'report' as const },
+			{ label: 'Export as CSV', action: 'csv' as const },
+			{ label: 'Export as JSON', action: 'json' as const },
+		],
+		{ title: `OpenCode Zen usage (${entries.length} requests)` }
+	);
+	if (!picked) {
+		return;
+	}
+
+	if (picked.action === 'report') {
+		const document = await vscode.workspace.openTextDocument({ content: renderUsageReport(entries), language: 'markdown' });
+		await vscode.window.showTextDocument(document, { preview: true });
+		return;
+	}
+
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: vscode.Uri.file(`opencode-zen-usage.${picked.action}`),
+		filters: picked.action === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] },
+	});
+	if (!target) {
+		return;
+	}
+
+	const content = picked.action === 'csv' ? toCsv(entries) : JSON.stringify(entries, null, 2);
+	await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+	vscode.window.showInformationMessage(`OpenCode Zen usage exported to ${target.fsPath}.`);
+}
+
+export function renderUsageReport(entries: readonly UsageEntry[]): string {
+	const total = sumEntries(entries);
+	const lines = [
+		'# OpenCode Zen Usage Report',
+		'',
+		`${total.requests} requests from ${entries[0].timestamp} to ${entries[entries.length - 1].timestamp}.`,
+		`Estimated total cost: ${formatCost(total.cost)}`,
+		'',
+		'## By Model',
+		'',
+		...renderTable('Model', groupBy(entries, (entry) => entry.modelId)),
+		'',
+		'## By Day',
+		'',
+		...renderTable('Day', groupBy(entries, (entry) => toLocalDay(entry.timestamp)), true),
+		'',
+		'## By Workspace',
+		'',
+		...renderTable('Workspace', groupBy(entries, (entry) => entry.workspace)),
+		'',
+		'## By Profile',
+		'',
+		...renderTable('Profile', groupBy(entries, (entry) => entry.profile ?? DEFAULT_PROFILE)),
+		'',
+		'Costs are estimates based on models.dev pricing at the time of each request.',
+		'',
+	];
+	return lines.join('\n');
+}
+
+function renderTable(label: string, groups: Map<string, UsageTotals>, sortByKey = false): string[] {
+	const rows = [...groups.entries()].sort(
+		sortByKey ? (a, b) => b[0].localeCompare(a[0]) : (a, b) => b[1].cost - a[1].cost
+	);
+	return [
+		`| ${label} | Requests | Input | Output | Cache read | Cache write | Cost |`,
+		'| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+		...rows.map(([key, totals]) =>
+			`| ${key} | ${totals.requests} | ${totals.inputTokens} | ${totals.outputTokens} | ${totals.cacheReadTokens} | ${totals.cacheWriteTokens} | ${formatCost(totals.cost)} |`
+		),
+	];
+}
+
+function groupBy(entries: readonly UsageEntry[], keyOf: (entry: UsageEntry) => string): Map<string, UsageTotals> {
+	const groups = new Map<string, UsageEntry[]>();
+	for (const entry of entries) {
+		const key = keyOf(entry);
+		const group = groups.get(key) ?? [];
+		group.push(entry);
+		groups.set(key, group);
+	}
+	return new Map([...groups.entries()].map(([key, group]) => [key, sumEntries(group)]));
+}
+
+export function sumEntries(entries: readonly UsageEntry[]): UsageTotals {
+	const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0 };
+	for (const entry of entries) {
+		totals.requests++;
+		totals.inputTokens += entry.inputTokens;
+		totals.outputTokens += entry.outputTokens;
+		totals.cacheReadTokens += entry.cacheReadTokens;
+		totals.cacheWriteTokens += entry.cacheWriteTokens;
+		totals.cost += entry.cost;
+	}
+	return totals;
+}
+
+export function toLocalDay(timestamp: string): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+export function toCsv(entries: readonly UsageEntry[]): string {
+	const escape = (value: unknown) => {
+		const text = String(value);
+		return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+	const lines = [CSV_COLUMNS.join(',')];
+	for (const entry of entries) {
+		lines.push(CSV_COLUMNS.map((column) => escape(entry[column] ?? '')).join(','));
+	}
+	return `${lines.join('\n')}\n`;
+}
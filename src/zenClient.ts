@@ -3,104 +3,31 @@ import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { createOpenAI } from '@ai-sdk/openai';
 import { streamText, type ModelMessage } from 'ai';
+import { withCassettes, type CassetteConfig } from './cassettes';
+import { classifyApiError, safeJson } from './errors';
+import { getNetworkFetch, getZenBaseUrl, redactHeaders } from './network';
 import { getOutputChannel } from './output';
-
-export const ZEN_BASE_URL = 'https://opencode.ai/zen/v1';
+import type { GenerationSettings } from './presets';
+import { computeRetryDelay, describeRetryReason, isRetryableError, sleep, type RetryPolicy } from './retry';
 
 export type ToolMode = 'auto' | 'required';
 
+export type ZenUsage = {
+	/** Total input tokens, including cache reads and writes. */
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+};
+
 export type StreamCallbacks = {
 	onTextDelta: (delta: string) => void;
+	/** Receives reasoning ("thinking") deltas. Reasoning is dropped when no handler is given. */
+	onReasoningDelta?: (delta: string) => void;
 	onToolCall: (args: { toolCallId: string; toolName: string; input: object }) => void;
+	onUsage?: (usage: ZenUsage) => void;
 };
 
-type ApiErrorDetails = {
-	statusCode?: number;
-	statusText?: string;
-	responseBody?: string;
-	requestId?: string;
-	url?: string;
-	requestBody?: unknown;
-	originalMessage?: string;
-};
-
-function wrapApiError(err: unknown, extra?: Partial<ApiErrorDetails>): Error {
-	const details = { ...extractErrorDetails(err), ...(extra ?? {}) };
-	const baseMessage = err instanceof Error ? err.message : String(err);
-
-	if (baseMessage.includes('Unauthorized') || baseMessage.includes('401')) {
-		const wrapped = new Error(
-			'Unauthorized: Please check your OpenCode API key. Run "OpenCode Zen: Set API Key" to update it.',
-			{ cause: err instanceof Error ? err : undefined }
-		);
-		return Object.assign(wrapped, details);
-	}
-	if (baseMessage.includes('404') || baseMessage.includes('Not Found')) {
-		const wrapped = new Error('Model not found. The requested model may not be available.', {
-			cause: err instanceof Error ? err : undefined,
-		});
-		return Object.assign(wrapped, details);
-	}
-
-	const wrapped = new Error(baseMessage, { cause: err instanceof Error ? err : undefined });
-	return Object.assign(wrapped, details);
-}
-
-function extractErrorDetails(err: unknown): ApiErrorDetails {
-	const record = (value: unknown): Record<string, unknown> | undefined => {
-		if (value && typeof value === 'object') {
-			return value as Record<string, unknown>;
-		}
-		return undefined;
-	};
-
-	const candidates = [record(err), record((err as { cause?: unknown })?.cause)].filter(Boolean) as Record<string, unknown>[];
-	const details: ApiErrorDetails = {};
-
-	for (const candidate of candidates) {
-		if (details.statusCode === undefined) {
-			const status = candidate.statusCode ?? candidate.status;
-			if (typeof status === 'number') {
-				details.statusCode = status;
-			}
-		}
-		if (details.statusText === undefined && typeof candidate.statusText === 'string') {
-			details.statusText = candidate.statusText;
-		}
-		if (details.url === undefined && typeof candidate.url === 'string') {
-			details.url = candidate.url;
-		}
-		if (details.requestId === undefined && typeof candidate.requestId === 'string') {
-			details.requestId = candidate.requestId;
-		}
-		if (details.responseBody === undefined && candidate.responseBody !== undefined) {
-			details.responseBody = normalizeToString(candidate.responseBody);
-		}
-		if (details.requestBody === undefined && candidate.requestBody !== undefined) {
-			details.requestBody = candidate.requestBody;
-		}
-		if (details.originalMessage === undefined && typeof candidate.message === 'string') {
-			details.originalMessage = candidate.message;
-		}
-	}
-
-	return details;
-}
-
-function normalizeToString(value: unknown): string {
-	if (typeof value === 'string') {
-		return value;
-	}
-	if (value instanceof Uint8Array) {
-		return Buffer.from(value).toString('utf-8');
-	}
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}
-
 export const OPENAI_COMPAT_PROVIDER_NAME = 'opencode';
 
 export async function streamZen(
@@ -118,6 +45,14 @@ export async function streamZen(
 		baseURL?: string;
 		toolNameMap?: ReadonlyMap<string, string>;
 		includeUsage?: boolean;
+		stripPromptCacheFields?: boolean;
+		retry?: RetryPolicy;
+		/** Sampling settings from the selected generation preset. */
+		generation?: GenerationSettings;
+		/** Records exchanges to, or replays them from, cassette files instead of the network. */
+		cassettes?: CassetteConfig;
+		/** Marks the last tool definition with cache_control on OpenAI-compatible requests. */
+		cacheToolDefinitions?: boolean;
 	},
 	callbacks: StreamCallbacks
 ): Promise<void> {
@@ -125,93 +60,116 @@ export async function streamZen(
 		throw new Error('OpenCode Zen API key is empty. Run "OpenCode Zen: Set API Key" to configure it.');
 	}
 
-	const baseURL = options.baseURL ?? ZEN_BASE_URL;
+	const baseURL = options.baseURL ?? getZenBaseUrl();
 	const providerNpm = options.providerNpm ?? '@ai-sdk/openai-compatible';
 	const provider = createProvider(
 		providerNpm,
 		options.apiKey,
 		baseURL,
 		options.debugLogging,
-		options.includeUsage
+		options.includeUsage,
+		options.stripPromptCacheFields,
+		options.cassettes,
+		options.cacheToolDefinitions
 	);
 	const endpointPath = getEndpointPath(providerNpm);
 
-	const result = streamText({
-		model: provider(options.modelId),
-		messages: options.messages,
-		headers: options.headers,
-		tools: options.tools,
-		toolChoice: options.tools ? options.toolMode : undefined,
-		abortSignal: options.abortSignal,
-		providerOptions: options.providerOptions,
-		onFinish: options.includeUsage
-			? (result) => {
-				const cachedTokens = extractCachedTokens(result?.usage);
-				if (cachedTokens) {
-					const output = getOutputChannel();
-					output.info(
-						`Prompt cache: read=${cachedTokens.read ?? 0}, write=${cachedTokens.write ?? 0}, cached=${cachedTokens.cached ?? 0}`
-					);
-				}
-			}
-			: undefined,
-	});
-
 	const requestBody: Record<string, unknown> = {
 		model: options.modelId,
 		messages: options.messages,
 		tools: options.tools,
 		tool_choice: options.tools ? options.toolMode : undefined,
 		provider_options: options.providerOptions ?? undefined,
+		...options.generation,
 	};
 
+	const retry = options.retry ?? { maxAttempts: 1, maxDelayMs: 0 };
 	let emitted = false;
 	let sawAnyChunk = false;
 
-	try {
-		for await (const part of result.fullStream) {
-			sawAnyChunk = true;
+	for (let attempt = 1; ; attempt++) {
+		sawAnyChunk = false;
+		const result = streamText({
+			model: provider(options.modelId),
+			messages: options.messages,
+			headers: options.headers,
+			tools: options.tools,
+			toolChoice: options.tools ? options.toolMode : undefined,
+			abortSignal: options.abortSignal,
+			providerOptions: options.providerOptions,
+			...options.generation,
+			// Retries are handled below so they can stop as soon as output has been emitted.
+			maxRetries: 0,
+			onFinish: (result) => {
+				const cachedTokens = options.includeUsage ? extractCachedTokens(result?.usage) : undefined;
+				if (cachedTokens) {
+					const output = getOutputChannel();
+					output.info(
+						`Prompt cache: read=${cachedTokens.read ?? 0}, write=${cachedTokens.write ?? 0}, cached=${cachedTokens.cached ?? 0}`
+					);
+				}
+				const usage = normalizeUsage(result?.totalUsage ?? result?.usage, cachedTokens);
+				if (usage) {
+					callbacks.onUsage?.(usage);
+				}
+			},
+		});
 
-			if (part.type === 'text-delta') {
-				emitted = emitted || part.text.length > 0;
-				callbacks.onTextDelta(part.text);
-				continue;
-			}
+		try {
+			for await (const part of result.fullStream) {
+				sawAnyChunk = true;
 
-			// Some providers emit reasoning tokens separately. VS Code doesn't have a reasoning response part,
-			// so we surface it as normal text.
-			if (part.type === 'reasoning-delta') {
-				if (part.text && part.text.length > 0) {
-					emitted = true;
+				if (part.type === 'text-delta') {
+					emitted = emitted || part.text.length > 0;
 					callbacks.onTextDelta(part.text);
+					continue;
 				}
-				continue;
-			}
 
-			if (part.type === 'tool-call') {
-				emitted = true;
-				callbacks.onToolCall({
-					toolCallId: part.toolCallId,
-					toolName: options.toolNameMap?.get(part.toolName) ?? part.toolName,
-					input: (part.input ?? {}) as object,
-				});
-				continue;
-			}
+				// Reasoning is kept apart from the answer; the caller decides whether and how to show it.
+				if (part.type === 'reasoning-delta') {
+					if (part.text && part.text.length > 0 && callbacks.onReasoningDelta) {
+						emitted = true;
+						callbacks.onReasoningDelta(part.text);
+					}
+					continue;
+				}
 
-			if (part.type === 'error') {
-				throw wrapApiError(part.error, {
-					requestBody,
-					url: `${baseURL}${endpointPath}`,
-				});
+				if (part.type === 'tool-call') {
+					emitted = true;
+					callbacks.onToolCall({
+						toolCallId: part.toolCallId,
+						toolName: options.toolNameMap?.get(part.toolName) ?? part.toolName,
+						input: (part.input ?? {}) as object,
+					});
+					continue;
+				}
+
+				if (part.type === 'error') {
+					throw classifyApiError(part.error, {
+						requestBody,
+						url: `${baseURL}${endpointPath}`,
+					});
+				}
+
+				// Ignore finish/metadata parts.
+			}
+			break;
+		} catch (err) {
+			const wrapped = classifyApiError(err, {
+				requestBody,
+				url: `${baseURL}${endpointPath}`,
+			});
+			// Only retry while VS Code has received nothing; a partial answer can't be taken back.
+			if (emitted || attempt >= retry.maxAttempts || options.abortSignal.aborted || !isRetryableError(wrapped)) {
+				throw wrapped;
 			}
 
-			// Ignore finish/metadata parts.
+			const delayMs = computeRetryDelay(attempt, wrapped, retry);
+			getOutputChannel().warn(
+				`Request to ${options.modelId} failed (${describeRetryReason(wrapped)}); retrying in ${delayMs}ms (attempt ${attempt + 1}/${retry.maxAttempts}).`
+			);
+			await sleep(delayMs, options.abortSignal);
 		}
-	} catch (err) {
-		throw wrapApiError(err, {
-			requestBody,
-			url: `${baseURL}${endpointPath}`,
-		});
 	}
 
 	// VS Code shows "Sorry, no response was returned" if we emit nothing.
@@ -225,26 +183,31 @@ function createProvider(
 	apiKey: string,
 	baseURL: string,
 	debugLogging?: boolean,
-	includeUsage?: boolean
+	includeUsage?: boolean,
+	stripPromptCacheFields?: boolean,
+	cassettes?: CassetteConfig,
+	cacheToolDefinitions?: boolean
 ): (modelId: string) => any {
+	const baseFetch = withCassettes(getNetworkFetch(), cassettes);
+	const fetch = debugLogging ? createDebugFetch(baseFetch) : baseFetch;
 	switch (providerNpm) {
 		case '@ai-sdk/anthropic':
 			return createAnthropic({
 				apiKey,
 				baseURL,
-				fetch: debugLogging ? createDebugFetch() : undefined,
+				fetch,
 			}) as any;
 		case '@ai-sdk/openai':
 			return createOpenAI({
 				apiKey,
 				baseURL,
-				fetch: debugLogging ? createDebugFetch() : undefined,
+				fetch,
 			}) as any;
 		case '@ai-sdk/google':
 			return createGoogleGenerativeAI({
 				apiKey,
 				baseURL,
-				fetch: debugLogging ? createDebugFetch() : undefined,
+				fetch,
 			}) as any;
 		case '@ai-sdk/openai-compatible':
 		default:
@@ -252,18 +215,33 @@ function createProvider(
 				name: OPENAI_COMPAT_PROVIDER_NAME,
 				apiKey,
 				baseURL,
-				fetch: debugLogging ? createDebugFetch() : undefined,
+				fetch,
 				includeUsage,
-				transformRequestBody: (args) => applyOpenAICompatibleCaching(args),
+				transformRequestBody: (args) => {
+					const body = applyOpenAICompatibleCaching(args, stripPromptCacheFields);
+					return cacheToolDefinitions ? markLastToolCached(body) : body;
+				},
 			});
 	}
 }
 
-function applyOpenAICompatibleCaching(args: Record<string, any>): Record<string, any> {
-	const modelId = typeof args.model === 'string' ? args.model.toLowerCase() : '';
+/**
+ * The OpenAI-compatible converter has no tool-level provider options, so the tool definition
+ * breakpoint is added to the request body. Marking the last tool caches all of them.
+ */
+function markLastToolCached(args: Record<string, any>): Record<string, any> {
+	if (!Array.isArray(args.tools) || args.tools.length === 0) {
+		return args;
+	}
+	const tools = [...args.tools];
+	tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: { type: 'ephemeral' } };
+	return { ...args, tools };
+}
+
+function applyOpenAICompatibleCaching(args: Record<string, any>, stripPromptCacheFields?: boolean): Record<string, any> {
 	const providerOptions = extractCompatibleProviderOptions(args);
-	const isGlm47 = modelId === 'glm-4.7' || modelId.endsWith('/glm-4.7');
-	if (isGlm47) {
+	// Models with `promptCaching: false` overrides (e.g. GLM 4.7) reject these fields outright.
+	if (stripPromptCacheFields) {
 		const hasCacheKey =
 			args.prompt_cache_key !== undefined || providerOptions?.prompt_cache_key !== undefined;
 		const hasRetention =
@@ -346,6 +324,26 @@ function extractCachedTokens(usage: any): { read?: number; write?: number; cache
 	return { cached, read, write };
 }
 
+function normalizeUsage(
+	usage: any,
+	cachedTokens: { read?: number; write?: number; cached?: number } | undefined
+): ZenUsage | undefined {
+	if (!usage || typeof usage !== 'object') {
+		return undefined;
+	}
+	const inputTokens = usage.inputTokens ?? 0;
+	const outputTokens = usage.outputTokens ?? 0;
+	if (inputTokens === 0 && outputTokens === 0) {
+		return undefined;
+	}
+	return {
+		inputTokens,
+		outputTokens,
+		cacheReadTokens: usage.inputTokenDetails?.cacheReadTokens ?? cachedTokens?.read ?? cachedTokens?.cached ?? 0,
+		cacheWriteTokens: usage.inputTokenDetails?.cacheWriteTokens ?? cachedTokens?.write ?? 0,
+	};
+}
+
 function getEndpointPath(providerNpm: string): string {
 	if (providerNpm === '@ai-sdk/anthropic') {
 		return '/messages';
@@ -359,7 +357,7 @@ function getEndpointPath(providerNpm: string): string {
 	return '/chat/completions';
 }
 
-function createDebugFetch(): typeof fetch {
+function createDebugFetch(baseFetch: typeof fetch): typeof fetch {
 	const output = getOutputChannel();
 
 	return async (input, init) => {
@@ -367,7 +365,7 @@ function createDebugFetch(): typeof fetch {
 		output.info('Debug: HTTP request');
 		output.append(`\n${requestInfo}\n`);
 
-		const response = await fetch(input, init);
+		const response = await baseFetch(input, init);
 		const responseInfo = await serializeResponse(response);
 
 		if (!response.ok) {
@@ -419,24 +417,3 @@ async function serializeResponse(response: Response): Promise<string> {
 		body: bodyText && bodyText.length > 0 ? bodyText : undefined,
 	});
 }
-
-function redactHeaders(headers: Headers): Record<string, string> {
-	const out: Record<string, string> = {};
-	for (const [key, value] of headers.entries()) {
-		const lower = key.toLowerCase();
-		if (lower === 'authorization' || lower === 'x-api-key') {
-			out[key] = '[REDACTED]';
-			continue;
-		}
-		out[key] = value;
-	}
-	return out;
-}
-
-function safeJson(value: unknown): string {
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}